@@ -0,0 +1,42 @@
+/**
+ * Команды экспорта профиля фактического расстояния видимости.
+ *
+ * Экспортируют профили, полученные при последнем выполнении правила
+ * `rule:visibility:alignment` в режиме построения профиля.
+ *
+ * @packageDocumentation
+ */
+
+import { saveText } from '../utils/save';
+import { getLastProfiles, profilesToCSV, profilesToJSON } from '../rules/profile';
+
+export default {
+    /**
+     * Экспортирует профили видимости в CSV.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:profile:csv': async (ctx: Context) => {
+        const profiles = getLastProfiles();
+        if (profiles.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет профилей видимости для экспорта'), 'warning');
+            return;
+        }
+        // BOM нужен для корректного открытия кириллицы в табличных редакторах
+        await saveText(ctx, 'visibility-profile.csv', `﻿${profilesToCSV(profiles)}`, { name: ctx.tr('Файлы CSV'), extensions: ['csv'] });
+    },
+
+    /**
+     * Экспортирует профили видимости в JSON вместе с данными графиков.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:profile:json': async (ctx: Context) => {
+        const profiles = getLastProfiles();
+        if (profiles.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет профилей видимости для экспорта'), 'warning');
+            return;
+        }
+        await saveText(ctx, 'visibility-profile.json', profilesToJSON(ctx, profiles), { name: ctx.tr('Файлы JSON'), extensions: ['json'] });
+    },
+};
@@ -0,0 +1,56 @@
+/**
+ * Команды экспорта результатов проверок видимости.
+ *
+ * Экспортируют участки с нарушенной видимостью, полученные при последнем выполнении
+ * каждого из правил проверки видимости.
+ *
+ * @packageDocumentation
+ */
+
+import { saveText } from '../utils/save';
+import { getLastResults, resultsToCSV, resultsToGeoJSON, resultsToJSON } from '../rules/results';
+
+export default {
+    /**
+     * Экспортирует результаты проверок в JSON.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:results:json': async (ctx: Context) => {
+        const results = getLastResults();
+        if (results.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет результатов проверки видимости для экспорта'), 'warning');
+            return;
+        }
+        await saveText(ctx, 'visibility-results.json', resultsToJSON(results), { name: ctx.tr('Файлы JSON'), extensions: ['json'] });
+    },
+
+    /**
+     * Экспортирует результаты проверок в CSV.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:results:csv': async (ctx: Context) => {
+        const results = getLastResults();
+        if (results.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет результатов проверки видимости для экспорта'), 'warning');
+            return;
+        }
+        // BOM нужен для корректного открытия кириллицы в табличных редакторах
+        await saveText(ctx, 'visibility-results.csv', `﻿${resultsToCSV(results)}`, { name: ctx.tr('Файлы CSV'), extensions: ['csv'] });
+    },
+
+    /**
+     * Экспортирует результаты проверок в GeoJSON.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:results:geojson': async (ctx: Context) => {
+        const results = getLastResults();
+        if (results.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет результатов проверки видимости для экспорта'), 'warning');
+            return;
+        }
+        await saveText(ctx, 'visibility-results.geojson', resultsToGeoJSON(results), { name: ctx.tr('Файлы GeoJSON'), extensions: ['geojson'] });
+    },
+};
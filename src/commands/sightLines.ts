@@ -0,0 +1,70 @@
+/**
+ * Команда построения зон видимости в чертеже.
+ *
+ * Переносит лучи видимости, сохраненные при последнем выполнении правила
+ * `rule:visibility:alignment`, в чертеж на отдельный слой: огибающие зоны видимости
+ * по обе стороны дороги и лучи видимости участков, на которых видимость не обеспечена.
+ *
+ * @packageDocumentation
+ */
+
+import { getLastSightLines } from '../rules/sightLines';
+
+/**
+ * Имя слоя, на котором строятся зоны видимости.
+ */
+const SIGHT_LINES_LAYER = 'Зоны видимости';
+
+/**
+ * Имя слоя, на котором строятся лучи участков с нарушенной видимостью.
+ */
+const FAILING_LINES_LAYER = 'Зоны видимости - нарушения';
+
+/**
+ * Возвращает слой чертежа с заданным именем, создавая его при необходимости.
+ *
+ * @param drawing - Чертёж.
+ * @param name - Имя слоя.
+ * @returns Слой чертежа.
+ */
+async function ensureLayer(drawing: Drawing, name: string): Promise<DwgLayer> {
+    return drawing.layers.itemByName(name) ?? await drawing.layers.add({ name });
+}
+
+export default {
+    /**
+     * Строит в чертеже огибающие зон видимости и лучи участков с нарушенной видимостью.
+     *
+     * @param ctx - Контекст приложения.
+     */
+    'visibility:sight-lines:draw': async (ctx: Context) => {
+        const sightLines = getLastSightLines();
+        if (sightLines === undefined || sightLines.sets.length === 0) {
+            await ctx.showMessage(ctx.tr('Нет лучей видимости: выполните проверку видимости вдоль трассы с сохранением лучей'), 'warning');
+            return;
+        }
+        const { drawing, sets } = sightLines;
+
+        const layout = drawing.layouts.model;
+        if (layout === undefined) {
+            return;
+        }
+        const envelopeLayer = await ensureLayer(drawing, SIGHT_LINES_LAYER);
+        const failingLayer = await ensureLayer(drawing, FAILING_LINES_LAYER);
+
+        const editor = layout.editor();
+        await editor.beginEdit();
+        try {
+            for (const set of sets) {
+                for (const vertices of [...set.left, ...set.right]) {
+                    await editor.addPolyline3d({ vertices, layer: envelopeLayer });
+                }
+                for (const [a, b] of set.failing) {
+                    await editor.addPolyline3d({ vertices: [a, b], layer: failingLayer });
+                }
+            }
+        } finally {
+            await editor.endEdit();
+        }
+    },
+};
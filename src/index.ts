@@ -1,9 +1,25 @@
 import properties from './properties';
 import alignmentVisibility from './rules/alignment';
 import objectsVisibility from './rules/objects';
+import intersectionVisibility from './rules/intersection';
+import crosswalksVisibility from './rules/crosswalks';
+import signsClutterVisibility from './rules/signsClutter';
+import signalsVisibility from './rules/signals';
+import railwayCrossingVisibility from './rules/railwayCrossing';
+import profileCommands from './commands/profile';
+import sightLineCommands from './commands/sightLines';
+import resultCommands from './commands/results';
 
 export default {
     ...properties,
     ...alignmentVisibility,
     ...objectsVisibility,
+    ...intersectionVisibility,
+    ...crosswalksVisibility,
+    ...signsClutterVisibility,
+    ...signalsVisibility,
+    ...railwayCrossingVisibility,
+    ...profileCommands,
+    ...sightLineCommands,
+    ...resultCommands,
 }
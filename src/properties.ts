@@ -65,6 +65,52 @@ export default {
             },
         };
     },
+    'property:string': (ctx: Context & ManifestPropertyProvider): ObjectPropertyProvider => {
+        return {
+            getProperties(objects: unknown[]) {
+                const field = ctx.field;
+                if (field === undefined) {
+                    return [];
+                }
+                return [{
+                    id: `string-${field}`,
+                    label: ctx.label ?? field,
+                    description: ctx.description,
+                    group: ctx.group,
+                    value() {
+                        const value = (objects[0] as any)[field];
+                        for (let i = 1; i < objects.length; ++i) {
+                            if (value !== (objects[i] as any)[field]) {
+                                return {
+                                    label: ctx.tr('**Различные**'),
+                                };
+                            }
+                        }
+                        return {
+                            label: value ?? '',
+                        };
+                    },
+                    editor() {
+                        return {
+                            type: 'editbox',
+                            commit(value?: string) {
+                                if (value === undefined) {
+                                    return;
+                                }
+                                for (const object of objects) {
+                                    try {
+                                        (object as any)[field] = value;
+                                    } catch (e) {
+                                        console.error(e);
+                                    }
+                                }
+                            },
+                        }
+                    },
+                }];
+            },
+        };
+    },
     'property:enum': (ctx: Context & EnumManifestPropertyProvider): ObjectPropertyProvider => {
         return {
             getProperties(objects: unknown[]) {
@@ -125,4 +171,68 @@ export default {
             },
         };
     },
+    'property:boolean': (ctx: Context & ManifestPropertyProvider): ObjectPropertyProvider => {
+        const values: Record<string, string> = {
+            true: ctx.tr('Да'),
+            false: ctx.tr('Нет'),
+        };
+        return {
+            getProperties(objects: unknown[]) {
+                const field = ctx.field;
+                if (field === undefined) {
+                    return [];
+                }
+                return [{
+                    id: `boolean-${field}`,
+                    label: ctx.label ?? field,
+                    description: ctx.description,
+                    group: ctx.group,
+                    value() {
+                        const value = (objects[0] as any)[field];
+                        for (let i = 1; i < objects.length; ++i) {
+                            if (value !== (objects[i] as any)[field]) {
+                                return {
+                                    label: ctx.tr('**Различные**'),
+                                };
+                            }
+                        }
+                        return {
+                            label: values[`${value === true}`],
+                        };
+                    },
+                    editor() {
+                        return {
+                            type: 'dropdown',
+                            provider(treeview: TreeView<TreeItem>, commit: (reload?: PropertySequenceUpdate) => void): PropertyEditorDropdownTreeViewOptions<TreeItem> {
+                                treeview.onDidChangeActive((e) => {
+                                    if (e.element === undefined) {
+                                        return;
+                                    }
+                                    for (let i = 0; i < objects.length; ++i) {
+                                        (objects[i] as any)[field] = e.element.id === 'true';
+                                    }
+                                    commit(PropertySequenceUpdate.Property);
+                                });
+                                return {
+                                    treeDataProvider: {
+                                        getChildren(_element: TreeItem | undefined, _treeview: TreeView<TreeItem>): ProviderResult<TreeItem[]> {
+                                            return Object.entries(values).map(([key, val]) => {
+                                                return {
+                                                    id: key,
+                                                    label: val,
+                                                };
+                                            });
+                                        },
+                                        hasChildren(_element: TreeItem, _treeview: TreeView<TreeItem>): boolean {
+                                            return false;
+                                        },
+                                    }
+                                };
+                            }
+                        }
+                    },
+                }];
+            },
+        };
+    },
 }
@@ -9,20 +9,48 @@
 
 import { DiagnosticSeverity, DwgType } from 'albatros/enums';
 import { binarySearch } from '../utils/binarySearch';
-import { SegmentFrustum } from '../utils/frustum';
-import { modelIntersectsSegment } from '../utils/intersect';
-import { AlignmentWrapper, MoveDirection } from './alignmentWrapper';
+import { ProgressReporter } from '../utils/progress';
+import { RayGroup } from '../utils/raycast';
+import { scanStations } from '../utils/scan';
+import { AlignmentWrapper, directionsOf, directionTitle, MoveDirection } from './alignmentWrapper';
+import { ClearanceSample, clearanceSideTitle, SightClearance, sightClearance } from './clearance';
+import { alignmentLanes, Lane, LANE_MAX_OFFSET, parseLanes } from './lanes';
+import { alignmentCorridor, filterLayers, Obstacle, obstacleClasses, ObstacleClassSettings, ObstacleFinder } from './obstacles';
+import { ReportMode, setLastProfiles, SightDistanceProfile } from './profile';
+import { axisPoints, entityRef, ResultKind, setLastResults, VisibilityResult } from './results';
+import { setLastSightLines, SightLineCollector, SightLineSet } from './sightLines';
+import { DesignStandard, RequirementMode, RequirementSettings, resolveRequirement, RoadCategory, SightCheck, SightRequirement } from './standards';
+import { parseVehicles, VehicleProfile, vehicleTitle } from './vehicles';
+
+/**
+ * Способ поиска положения объекта, с которого видимость прерывается.
+ */
+enum SightSearch {
+    /**
+     * Последовательный перебор положений объекта с шагом `objectStep`.
+     */
+    LINEAR = "LINEAR",
+    /**
+     * Вилка от границы предыдущего пикета по узлам с шагом `searchTolerance` и деление
+     * пополам до шага `objectStep`. Результат совпадает с последовательным перебором, если
+     * объект закрыт на отрезках пути не короче `searchTolerance`; это сверяется контрольной
+     * проверкой на части пикетов.
+     */
+    BISECTION = "BISECTION",
+}
 
 /**
  * Правило для проверки видимости вдоль трассы.
  *
  * Определяет параметры, по которым выполняется анализ видимости:
- * - фильтры для слоев трасс и препятствий;
- * - смещения и высоты точек обзора и наблюдаемого объекта;
+ * - фильтры для слоев трасс, препятствий и поверхностей, поведение препятствий по слоям;
+ * - смещения и высоты точек обзора и наблюдаемого объекта, полосы движения;
  * - направление движения;
- * - дистанция и шаги просчета.
+ * - дистанция и шаги просчета;
+ * - нормативный режим, в котором дистанция и высоты берутся из таблиц норм;
+ * - проверка дальности освещения фарами в темное время суток.
  */
-interface AlignmentVisibilityRule {
+interface AlignmentVisibilityRule extends RequirementSettings, ObstacleClassSettings {
     /**
      * Фильтр для выбора слоев, содержащих трассы.
      * Используется для поиска объектов трасс в чертеже.
@@ -35,11 +63,30 @@ interface AlignmentVisibilityRule {
      */
     obstacleFilter: string;
 
+    /**
+     * Фильтр для выбора слоев, содержащих поверхности рельефа и дороги.
+     * Пустой фильтр отключает учет поверхностей.
+     */
+    surfaceFilter: string;
+
     /**
      * Горизонтальное смещение точки наблюдения от оси трассы (в метрах).
+     * Используется, если полосы движения не заданы.
      */
     viewPointOffset: number;
 
+    /**
+     * Полосы движения, с которых проверяется видимость.
+     * Строка полос, разделенных `;`: постоянное смещение или таблица `пикет: смещение` через запятую.
+     */
+    lanes: string;
+
+    /**
+     * Фильтр для выбора слоев, содержащих оси полос модели коридора.
+     * Пустой фильтр отключает чтение полос из модели.
+     */
+    laneFilter: string;
+
     /**
      * Высота точки наблюдения над уровнем трассы (в метрах).
      */
@@ -47,6 +94,7 @@ interface AlignmentVisibilityRule {
 
     /**
      * Горизонтальное смещение наблюдаемого объекта от оси трассы (в метрах).
+     * При проверке по полосам объект смещается вместе с полосой на `objectOffset - viewPointOffset`.
      */
     objectOffset: number;
 
@@ -55,8 +103,17 @@ interface AlignmentVisibilityRule {
      */
     objectElevation: number;
 
+    /**
+     * Профили транспортных средств, для каждого из которых видимость проверяется отдельно.
+     * Строка профилей, разделенных `;`: вид (`CAR`, `TRUCK`, `BUS`) либо `наименование: высота глаз, высота объекта`.
+     * Высоты профиля заменяют `viewPointElevation` и `objectElevation`; пустая строка — проверка по высотам правила.
+     */
+    vehicles: string;
+
     /**
      * Направление движения вдоль трассы.
+     * При значении `BOTH` оба направления проверяются за один запуск с общими результатами
+     * поиска препятствий на совпадающих лучах.
      */
     direction: MoveDirection;
 
@@ -75,6 +132,70 @@ interface AlignmentVisibilityRule {
      * Шаг просчета положения наблюдаемого объекта (в метрах).
      */
     objectStep: number;
+
+    /**
+     * Способ поиска положения объекта, с которого видимость прерывается.
+     */
+    search: SightSearch;
+
+    /**
+     * Шаг узлов при поиске делением пополам (в метрах). Результат совпадает с последовательным
+     * перебором, если объект закрыт на отрезках пути не короче этого шага.
+     */
+    searchTolerance: number;
+
+    /**
+     * Уточнять ли границы участков: проход с шагом `coarseStep` и деление пополам
+     * вокруг каждой смены видимости до точности `stationTolerance` вместо прохода с шагом `viewPointStep`.
+     */
+    adaptive: boolean;
+
+    /**
+     * Шаг начального прохода при уточнении границ участков (в метрах).
+     */
+    coarseStep: number;
+
+    /**
+     * Точность определения границ участков при уточнении (в метрах).
+     */
+    stationTolerance: number;
+
+    /**
+     * Наибольшее число потоков вычисления, в которых проверяются лучи начального прохода по пикетам.
+     * При значении `1` и менее расчет выполняется в основном потоке.
+     * В потоках положения объекта перебираются последовательно независимо от способа поиска.
+     */
+    maxWorkers: number;
+
+    /**
+     * Режим формирования результатов: только участки нарушений или также профиль видимости.
+     */
+    report: ReportMode;
+
+    /**
+     * Сохранять ли лучи видимости для построения зон видимости в чертеже.
+     */
+    sightLines: boolean;
+
+    /**
+     * Рассчитывать ли расчистку видимости с внутренней стороны кривых в плане.
+     */
+    clearance: boolean;
+
+    /**
+     * Проверять ли дальность освещения фарами в темное время суток.
+     */
+    headlights: boolean;
+
+    /**
+     * Высота фар над уровнем трассы (в метрах).
+     */
+    headlightElevation: number;
+
+    /**
+     * Угол расхождения луча фар вверх и в стороны от продольной оси автомобиля (в градусах).
+     */
+    headlightAngle: number;
 }
 
 /**
@@ -105,15 +226,545 @@ interface AlignmentVisibilityDiagnostic extends Diagnostic {
      */
     rule: AlignmentVisibilityRule;
 
+    /**
+     * Полоса с наихудшей видимостью на проблемном участке.
+     */
+    lane: Lane;
+
     /**
      * Множество препятствий, обнаруженных на проблемном участке.
      */
-    obstacles: WeakSet<DwgModel3d>;
+    obstacles: Set<Obstacle>;
 
     /**
      * Последовательность ключевых кадров для анимации просмотра.
      */
     keyFrames: AlignmentVisibilityDiagnosticKeyFrame[];
+
+    /**
+     * Нормативное требование, примененное при проверке (в нормативном режиме).
+     */
+    requirement?: SightRequirement;
+}
+
+/**
+ * Диагностика с профилем фактического расстояния видимости вдоль трассы.
+ */
+interface AlignmentVisibilityProfileDiagnostic extends Diagnostic {
+    /**
+     * Профиль фактического расстояния видимости.
+     */
+    profile: SightDistanceProfile;
+}
+
+/**
+ * Диагностика расчистки видимости на кривой в плане.
+ */
+interface AlignmentClearanceDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Обёртка вокруг объекта трассы.
+     */
+    alignment: AlignmentWrapper;
+
+    /**
+     * Расчистка видимости на пикетах участка.
+     */
+    samples: ClearanceSample[];
+
+    /**
+     * Препятствия, расположенные в зоне расчистки.
+     */
+    obstacles: Set<Obstacle>;
+}
+
+/**
+ * Результат проверки видимости с одного положения наблюдателя.
+ */
+interface StationSight {
+    /**
+     * Положение точки наблюдения (в метрах от начала трассы).
+     */
+    station: number;
+
+    /**
+     * Положение объекта, на котором прервана проверка: первое закрытое препятствием
+     * либо первое за пределами дистанции видимости или трассы.
+     */
+    objectStation: number;
+
+    /**
+     * Фактическое расстояние видимости вдоль трассы (в метрах).
+     */
+    distance: number;
+
+    /**
+     * Препятствия, закрывающие объект. Пустой массив означает, что видимость обеспечена.
+     */
+    obstacles: Obstacle[];
+
+    /**
+     * Признак того, что объект дошел до конца трассы раньше границы дистанции видимости:
+     * расстояние ограничено длиной трассы и не сравнивается с требуемым.
+     */
+    limited: boolean;
+}
+
+/**
+ * Дальность освещения фарами с одного положения автомобиля.
+ */
+interface HeadlightSight {
+    /**
+     * Положение автомобиля (в метрах от начала трассы).
+     */
+    station: number;
+
+    /**
+     * Первое неосвещенное положение на полосе либо первое за пределами дистанции видимости или трассы.
+     */
+    objectStation: number;
+
+    /**
+     * Освещаемое расстояние вдоль трассы (в метрах).
+     */
+    distance: number;
+
+    /**
+     * Освещение прервано лучом фар в пределах дистанции видимости.
+     */
+    dark: boolean;
+}
+
+/**
+ * Результаты проверки на пикете со всех полос.
+ */
+interface StationScan {
+    /**
+     * Результаты проверки с каждой полосы; `undefined` — полоса на пикете отсутствует.
+     */
+    sights: (StationSight | undefined)[];
+
+    /**
+     * Наибольшая среди полос расчистка видимости на кривой.
+     */
+    clearance?: SightClearance;
+
+    /**
+     * Препятствия в зоне расчистки.
+     */
+    clearanceObstacles?: Obstacle[];
+
+    /**
+     * Дальность освещения фарами с каждой полосы (в режиме проверки фар).
+     */
+    headlights?: (HeadlightSight | undefined)[];
+}
+
+/**
+ * Число пикетов, передаваемых одному потоку вычисления за раз.
+ */
+const WORKER_BATCH = 64;
+
+/**
+ * Период контрольной проверки поиска делением пополам: каждый результат с этим номером
+ * на полосе сравнивается с последовательным перебором.
+ */
+const SEARCH_CHECK_INTERVAL = 20;
+
+const _viewPoint: vec3 = [0.0, 0.0, 0.0];
+const _objectPoint: vec3 = [0.0, 0.0, 0.0];
+const _tangent: vec3 = [0.0, 0.0, 0.0];
+
+/**
+ * Вычисляет смещение наблюдаемого объекта от оси трассы для полосы.
+ *
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @param objectStation - Положение объекта.
+ * @returns Смещение объекта (в метрах).
+ */
+function objectOffsetAt(rule: AlignmentVisibilityRule, lane: Lane, station: number, objectStation: number): number {
+    const laneOffset = lane.offsetAt(objectStation) ?? lane.offsetAt(station) ?? rule.viewPointOffset;
+    return laneOffset + rule.objectOffset - rule.viewPointOffset;
+}
+
+/**
+ * Вычисляет положение глаз наблюдателя в мировых координатах.
+ *
+ * @param target - Вектор, в который записывается результат.
+ * @param alignment - Трасса с направлением движения.
+ * @param rule - Параметры правила.
+ * @param viewPointOffset - Смещение наблюдателя от оси трассы.
+ * @param station - Положение наблюдателя.
+ * @returns Вектор `target`.
+ */
+function viewPointAt(target: vec3, alignment: AlignmentWrapper, rule: AlignmentVisibilityRule, viewPointOffset: number, station: number): vec3 {
+    alignment.toWCS(target as unknown as vec2, [station, viewPointOffset]);
+    target[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+    return target;
+}
+
+/**
+ * Вычисляет положение наблюдаемого объекта в мировых координатах.
+ *
+ * @param target - Вектор, в который записывается результат.
+ * @param alignment - Трасса с направлением движения.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @param objectStation - Положение объекта.
+ * @returns Вектор `target`.
+ */
+function objectPointAt(target: vec3, alignment: AlignmentWrapper, rule: AlignmentVisibilityRule, lane: Lane, station: number, objectStation: number): vec3 {
+    alignment.toWCS(target as unknown as vec2, [objectStation, objectOffsetAt(rule, lane, station, objectStation)]);
+    target[2] = alignment.elevationAt(objectStation) + rule.objectElevation;
+    return target;
+}
+
+/**
+ * Находит положение объекта на границе требуемой дистанции видимости.
+ *
+ * Граница не убывает с ростом пикета наблюдателя, поэтому поиск продолжается
+ * с границы, найденной для предыдущего пикета.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @param viewPoint - Точка наблюдения.
+ * @param from - Граница, найденная для предыдущего пикета.
+ * @returns Последнее положение объекта в пределах дистанции видимости.
+ */
+function requiredObjectStation(alignment: AlignmentWrapper, rule: AlignmentVisibilityRule, lane: Lane, station: number, viewPoint: vec3, from: number): number {
+    let objectStation = Math.max(from, station);
+    while (objectStation + rule.objectStep <= alignment.length) {
+        objectPointAt(_objectPoint, alignment, rule, lane, station, objectStation + rule.objectStep);
+        if (Math3d.vec3.distance(viewPoint, _objectPoint) > rule.viewDistance) {
+            break;
+        }
+        objectStation += rule.objectStep;
+    }
+    return objectStation;
+}
+
+/**
+ * Проверяет видимость объекта, удаляющегося от наблюдателя с шагом `objectStep`,
+ * до первого препятствия либо до границы видимости.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param obstacleFinder - Поиск препятствий.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @returns Результат проверки либо `undefined`, если полоса на пикете отсутствует.
+ */
+function traceSight(alignment: AlignmentWrapper, obstacleFinder: ObstacleFinder, rule: AlignmentVisibilityRule, lane: Lane, station: number): StationSight | undefined {
+    const viewPointOffset = lane.offsetAt(station);
+    if (viewPointOffset === undefined) {
+        return undefined;
+    }
+    const length = alignment.length;
+    viewPointAt(_viewPoint, alignment, rule, viewPointOffset, station);
+
+    let objectStation: number;
+    const obstacles: Obstacle[] = [];
+
+    // Поиск препятствий на пути к объекту
+    for (objectStation = station + rule.objectStep; objectStation <= length; objectStation += rule.objectStep) {
+        objectPointAt(_objectPoint, alignment, rule, lane, station, objectStation);
+
+        if (Math3d.vec3.distance(_viewPoint, _objectPoint) > rule.viewDistance) {
+            break;
+        }
+
+        // Поиск 3D-объектов и поверхностей, пересекающих сегмент
+        const found = obstacleFinder.find(_viewPoint, _objectPoint);
+        if (obstacleFinder.blocks(found)) {
+            obstacles.push(...found);
+            break;
+        }
+    }
+
+    return {
+        station,
+        objectStation,
+        // Фактическое расстояние видимости: до последнего видимого положения объекта
+        distance: Math.max(Math.min(objectStation - rule.objectStep, length) - station, 0.0),
+        obstacles,
+        limited: obstacles.length === 0 && objectStation > length,
+    };
+}
+
+/**
+ * Формирует лучи от наблюдателя к объекту, удаляющемуся с шагом `objectStep`
+ * до границы видимости, для проверки в потоках вычисления.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @returns Группа лучей либо `undefined`, если полоса на пикете отсутствует.
+ */
+function sightRays(alignment: AlignmentWrapper, rule: AlignmentVisibilityRule, lane: Lane, station: number): RayGroup | undefined {
+    const viewPointOffset = lane.offsetAt(station);
+    if (viewPointOffset === undefined) {
+        return undefined;
+    }
+    const origin = viewPointAt([0.0, 0.0, 0.0], alignment, rule, viewPointOffset, station);
+    const targets: vec3[] = [];
+    for (let k = 1; station + k * rule.objectStep <= alignment.length; ++k) {
+        const target = objectPointAt([0.0, 0.0, 0.0], alignment, rule, lane, station, station + k * rule.objectStep);
+        if (Math3d.vec3.distance(origin, target) > rule.viewDistance) {
+            break;
+        }
+        targets.push(target);
+    }
+    return { origin, targets, first: true };
+}
+
+/**
+ * Формирует результат проверки видимости по лучам, проверенным в потоках вычисления.
+ * Результат совпадает с результатом {@link traceSight}.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param obstacleFinder - Поиск препятствий.
+ * @param rule - Параметры правила.
+ * @param station - Положение наблюдателя.
+ * @param group - Лучи, сформированные {@link sightRays}.
+ * @param found - Препятствия на проверенных лучах.
+ * @returns Результат проверки.
+ */
+function sightFromRays(alignment: AlignmentWrapper, obstacleFinder: ObstacleFinder, rule: AlignmentVisibilityRule, station: number, group: RayGroup, found: Obstacle[][]): StationSight {
+    const last = found.length > 0 ? found[found.length - 1] : [];
+    const obstacles = obstacleFinder.blocks(last) ? last : [];
+    const objectStation = station + (obstacles.length > 0 ? found.length : group.targets.length + 1) * rule.objectStep;
+    return {
+        station,
+        objectStation,
+        distance: Math.max(Math.min(objectStation - rule.objectStep, alignment.length) - station, 0.0),
+        obstacles,
+        limited: obstacles.length === 0 && objectStation > alignment.length,
+    };
+}
+
+/**
+ * Вычисляет дальность освещения полосы фарами автомобиля.
+ *
+ * Луч фар расходится вверх и в стороны на угол `headlightAngle` от продольной оси автомобиля,
+ * направленной по касательной к трассе в плане и по уклону профиля. Точка полосы на уровне
+ * покрытия освещена, если находится ниже верхней границы луча и в пределах его ширины: на вогнутых
+ * кривых в профиле покрытие поднимается над лучом, на кривых в плане полоса уходит из луча в сторону.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса автомобиля.
+ * @param station - Положение автомобиля.
+ * @returns Дальность освещения либо `undefined`, если полоса на пикете отсутствует.
+ */
+function headlightDistance(alignment: AlignmentWrapper, rule: AlignmentVisibilityRule, lane: Lane, station: number): HeadlightSight | undefined {
+    const viewPointOffset = lane.offsetAt(station);
+    if (viewPointOffset === undefined) {
+        return undefined;
+    }
+    const length = alignment.length;
+    alignment.toWCS(_viewPoint as unknown as vec2, [station, viewPointOffset]);
+    _viewPoint[2] = alignment.elevationAt(station) + rule.headlightElevation;
+    alignment.tangentAt(_tangent, station);
+    Math3d.vec2.normalize(_tangent as unknown as vec2);
+    // Продольный уклон профиля под автомобилем
+    const behind = Math.max(station - rule.objectStep, 0.0);
+    const ahead = Math.min(station + rule.objectStep, length);
+    const grade = ahead > behind ? (alignment.elevationAt(ahead) - alignment.elevationAt(behind)) / (ahead - behind) : 0.0;
+    const angle = rule.headlightAngle * Math.PI / 180;
+    const tan = Math.tan(Math.atan(grade) + angle);
+    const cos = Math.cos(angle);
+
+    let objectStation: number;
+    let dark = false;
+    for (objectStation = station + rule.objectStep; objectStation <= length; objectStation += rule.objectStep) {
+        alignment.toWCS(_objectPoint as unknown as vec2, [objectStation, objectOffsetAt(rule, lane, station, objectStation)]);
+        _objectPoint[2] = alignment.elevationAt(objectStation);
+        if (Math3d.vec3.distance(_viewPoint, _objectPoint) > rule.viewDistance) {
+            break;
+        }
+        const dx = _objectPoint[0] - _viewPoint[0];
+        const dy = _objectPoint[1] - _viewPoint[1];
+        const planDistance = Math.hypot(dx, dy);
+        // Покрытие выше верхней границы луча либо полоса за пределами ширины луча
+        if (_objectPoint[2] - _viewPoint[2] > planDistance * tan || dx * _tangent[0] + dy * _tangent[1] < planDistance * cos) {
+            dark = true;
+            break;
+        }
+    }
+
+    return {
+        station,
+        objectStation,
+        distance: Math.max(Math.min(objectStation - rule.objectStep, length) - station, 0.0),
+        dark,
+    };
+}
+
+/**
+ * Находит положение объекта, с которого видимость прерывается, делением пополам.
+ *
+ * Положения объекта перебираются по той же сетке с шагом `objectStep`, что и при
+ * последовательном переборе. Положения ближе `searchTolerance` к наблюдателю проверяются
+ * по одному, дальше — узлы с шагом `searchTolerance`. Вилка строится от узла у границы
+ * видимости предыдущего пикета: от закрытого узла назад, от видимого — вперед до первого
+ * закрытого. Узлы ближе вилки проверяются, чтобы найти первый закрытый узел, после чего
+ * интервал между ним и предыдущим видимым узлом делится пополам.
+ *
+ * Если каждый отрезок пути, на котором объект закрыт, не короче `searchTolerance`, результат
+ * совпадает с результатом {@link traceSight}: такой отрезок содержит узел, а между предыдущим
+ * видимым узлом и первым закрытым видимость прерывается один раз. Более короткий отрезок
+ * может быть пропущен.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param obstacleFinder - Поиск препятствий.
+ * @param rule - Параметры правила.
+ * @param lane - Полоса наблюдателя.
+ * @param station - Положение наблюдателя.
+ * @param guess - Положение объекта, с которого видимость прервалась на предыдущем пикете.
+ * @returns Результат проверки либо `undefined`, если полоса на пикете отсутствует.
+ */
+function searchSight(alignment: AlignmentWrapper, obstacleFinder: ObstacleFinder, rule: AlignmentVisibilityRule, lane: Lane, station: number, guess: number): StationSight | undefined {
+    const viewPointOffset = lane.offsetAt(station);
+    if (viewPointOffset === undefined) {
+        return undefined;
+    }
+    const length = alignment.length;
+    const step = rule.objectStep;
+    viewPointAt(_viewPoint, alignment, rule, viewPointOffset, station);
+
+    // Первое положение объекта за пределами трассы или дистанции видимости
+    let end = 1;
+    while (station + end * step <= length) {
+        objectPointAt(_objectPoint, alignment, rule, lane, station, station + end * step);
+        if (Math3d.vec3.distance(_viewPoint, _objectPoint) > rule.viewDistance) {
+            break;
+        }
+        ++end;
+    }
+
+    const blocked = (k: number): Obstacle[] => {
+        objectPointAt(_objectPoint, alignment, rule, lane, station, station + k * step);
+        const found = obstacleFinder.find(_viewPoint, _objectPoint);
+        return obstacleFinder.blocks(found) ? found : [];
+    };
+
+    const last = end - 1;
+    const stride = Math.max(Math.round(rule.searchTolerance / step), 1);
+    let hit = -1;
+    let obstacles: Obstacle[] = [];
+
+    // Ближние положения объекта проверяются по одному
+    const near = Math.min(stride, last);
+    for (let k = 1; k <= near; ++k) {
+        obstacles = blocked(k);
+        if (obstacles.length > 0) {
+            hit = k;
+            break;
+        }
+    }
+
+    // Узлы с шагом `searchTolerance` после ближних положений; последний узел — последнее положение
+    const nodes = Math.ceil((last - near) / stride);
+    if (hit < 0 && nodes > 0) {
+        const node = (i: number) => Math.min(near + i * stride, last);
+
+        // Вилка от узла у границы видимости предыдущего пикета
+        let first = Math.min(Math.max(Math.round(((guess - station) / step - near) / stride), 1), nodes);
+        let hitNode = -1;
+        obstacles = blocked(node(first));
+        if (obstacles.length > 0) {
+            hitNode = first;
+            while (first > 1) {
+                const found = blocked(node(first - 1));
+                if (found.length === 0) {
+                    break;
+                }
+                hitNode = --first;
+                obstacles = found;
+            }
+        } else {
+            for (let i = first + 1; i <= nodes; ++i) {
+                const found = blocked(node(i));
+                if (found.length > 0) {
+                    hitNode = i;
+                    obstacles = found;
+                    break;
+                }
+            }
+        }
+
+        // Узлы ближе вилки: видимость могла прерваться раньше, чем на предыдущем пикете
+        for (let i = first - 1; i >= 1; --i) {
+            const found = blocked(node(i));
+            if (found.length > 0) {
+                hitNode = i;
+                obstacles = found;
+            }
+        }
+
+        // Деление пополам между первым закрытым узлом и предыдущим видимым
+        if (hitNode > 0) {
+            let visible = node(hitNode - 1);
+            hit = node(hitNode);
+            while (hit - visible > 1) {
+                const middle = (visible + hit) >> 1;
+                const found = blocked(middle);
+                if (found.length > 0) {
+                    hit = middle;
+                    obstacles = found;
+                } else {
+                    visible = middle;
+                }
+            }
+        }
+    }
+
+    const objectStation = station + (hit > 0 ? hit : end) * step;
+    return {
+        station,
+        objectStation,
+        distance: Math.max(Math.min(objectStation - step, length) - station, 0.0),
+        obstacles: hit > 0 ? obstacles : [],
+        limited: hit < 0 && objectStation > length,
+    };
+}
+
+/**
+ * Формирует подсказку к участку с нарушенной видимостью.
+ *
+ * @param ctx - Контекст приложения.
+ * @param surface - Признак того, что видимость ограничена поверхностью рельефа или дороги.
+ * @param requirement - Примененное нормативное требование.
+ * @returns Текст подсказки.
+ */
+function rangeTooltip(ctx: Context, surface: boolean, requirement: SightRequirement | undefined): string {
+    const tooltip = surface ? ctx.tr('Поверхность рельефа или дороги мешает видимости') : ctx.tr('Препятствия мешают видимости');
+    if (requirement === undefined) {
+        return tooltip;
+    }
+    return `${tooltip}. ${ctx.tr('Требование: {0}, {1}, {2} м', requirement.norm, requirement.row, requirement.viewDistance.toFixed(0))}`;
+}
+
+/**
+ * Дополняет сообщение наименованием профиля транспортного средства.
+ *
+ * @param ctx - Контекст приложения.
+ * @param vehicle - Профиль либо `undefined`, если проверка выполнена по высотам правила.
+ * @param message - Текст сообщения.
+ * @returns Текст сообщения с указанием профиля.
+ */
+function vehicleMessage(ctx: Context, vehicle: VehicleProfile | undefined, message: string): string {
+    return vehicle !== undefined ? `${message} (${ctx.tr('профиль: {0}', vehicleTitle(ctx, vehicle))})` : message;
 }
 
 /**
@@ -142,7 +793,7 @@ function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
 
     const alignment = visibilityDiagnostic.alignment;
 
-    const { rule, keyFrames } = visibilityDiagnostic;
+    const { rule, lane, keyFrames } = visibilityDiagnostic;
     const obstacles = visibilityDiagnostic.obstacles;
 
     // Параметры анимации
@@ -175,12 +826,12 @@ function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
         const objectStation = index > 0 ? keyFrames[index - 1][1] : keyFrames[0][1];
 
         position[0] = station;
-        position[1] = rule.viewPointOffset;
+        position[1] = lane.offsetAt(station) ?? rule.viewPointOffset;
         alignment.toWCS(position as unknown as vec2, position as unknown as vec2);
         position[2] = alignment.elevationAt(station) + rule.viewPointElevation;
 
         pivot[0] = objectStation;
-        pivot[1] = rule.objectOffset,
+        pivot[1] = objectOffsetAt(rule, lane, station, objectStation);
         alignment.toWCS(pivot as unknown as vec2, pivot as unknown as vec2);
         pivot[2] = alignment.elevationAt(objectStation) + rule.objectElevation;
 
@@ -192,6 +843,21 @@ function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
     });
 }
 
+/**
+ * Активирует диагностику расчистки видимости: выделяет трассу и препятствия в зоне расчистки.
+ *
+ * @param diagnostic - Диагностика расчистки видимости.
+ */
+function activateClearanceDiagnostic(diagnostic: Diagnostic) {
+    const { ctx, alignment, obstacles } = diagnostic as AlignmentClearanceDiagnostic;
+    const { cadview } = ctx;
+    if (!cadview) return;
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((obj) => obstacles.has(obj) || obj === alignment, true);
+    cadview.invalidate();
+}
+
 /**
  * Экспортирует правило диагностики видимости вдоль трассы.
  * 
@@ -216,14 +882,39 @@ export default {
                 return {
                     alignmentFilter: '$type_1 = SmdxElement',
                     obstacleFilter: '$type_1 = SmdxElement',
+                    surfaceFilter: '',
                     viewPointOffset: 0,
+                    lanes: '',
+                    laneFilter: '',
                     viewPointElevation: 1.2,
                     objectOffset: 0,
                     objectElevation: 0.2,
+                    vehicles: '',
                     direction: MoveDirection.FORWARD,
                     viewDistance: 300,
                     viewPointStep: 1,
                     objectStep: 1,
+                    search: SightSearch.LINEAR,
+                    searchTolerance: 10,
+                    adaptive: false,
+                    coarseStep: 10,
+                    stationTolerance: 0.1,
+                    maxWorkers: 4,
+                    mode: RequirementMode.MANUAL,
+                    standard: DesignStandard.SP_34_13330,
+                    designSpeed: 80,
+                    roadCategory: RoadCategory.III,
+                    checkType: SightCheck.STOPPING,
+                    transparentFilter: '',
+                    transparency: 0.5,
+                    lowObstacleFilter: '',
+                    lowObstacleHeight: 0.5,
+                    report: ReportMode.RANGES,
+                    sightLines: false,
+                    clearance: false,
+                    headlights: false,
+                    headlightElevation: 0.6,
+                    headlightAngle: 1,
                 };
             },
 
@@ -253,13 +944,17 @@ export default {
                 }
 
                 const modelName = drawing.layers.layer0?.modelName ?? '';
-                const messages: Record<string, (Diagnostic | AlignmentVisibilityDiagnostic)[]> = {};
+                const messages: Record<string, (Diagnostic | AlignmentVisibilityDiagnostic | AlignmentVisibilityProfileDiagnostic | AlignmentClearanceDiagnostic)[]> = {};
+                const profiles: SightDistanceProfile[] = [];
+                const sightLineSets: SightLineSet[] = [];
+                const results: VisibilityResult[] = [];
 
                 // Получение трасс
-                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).map(align => new AlignmentWrapper(align as DwgAlignment, rule.direction));
-                // Получение слоёв препятствий
+                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).flatMap(align => directionsOf(rule.direction).map(direction => new AlignmentWrapper(align as DwgAlignment, direction)));
+                // Получение слоёв препятствий и поверхностей
                 const obstacleLayers = drawing.filterLayers(rule.obstacleFilter, false);
-                if (obstacleLayers.size === 0) {
+                const surfaceLayers = filterLayers(drawing, rule.surfaceFilter);
+                if (obstacleLayers.size === 0 && (surfaceLayers === undefined || surfaceLayers.size === 0)) {
                     messages[modelName] = [{
                         message: ctx.tr('Не найдены подходящие объекты препятствий'),
                         severity: DiagnosticSeverity.Warning,
@@ -268,133 +963,502 @@ export default {
                     }];
                 }
 
-                const inverseMatrices = new WeakMap<DwgModel3d, mat4>;
+                // Определение требований к видимости по нормам
+                let requirement: SightRequirement | undefined;
+                if (rule.mode === RequirementMode.STANDARD) {
+                    requirement = resolveRequirement(rule);
+                    if (requirement === undefined) {
+                        messages[modelName] = [{
+                            message: ctx.tr('Норма не устанавливает требование к видимости'),
+                            severity: DiagnosticSeverity.Warning,
+                            tooltip: ctx.tr('Для заданных нормы, категории дороги, расчетной скорости и вида проверки требование отсутствует'),
+                            ctx,
+                        }];
+                        diagnostics.set(modelName, messages[modelName]);
+                        return;
+                    }
+                    rule = {
+                        ...rule,
+                        viewDistance: requirement.viewDistance,
+                        viewPointElevation: requirement.viewPointElevation,
+                        objectElevation: requirement.objectElevation,
+                    };
+                }
+
+                // Полосы движения наблюдателя
+                const laneTables = parseLanes(rule.lanes);
+                if (laneTables === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы полосы движения'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Полосы задаются через «;» постоянным смещением или таблицей «пикет: смещение» через запятую'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const laneFilter = rule.laneFilter?.trim() ? rule.laneFilter : undefined;
+                const laneAxes = laneFilter !== undefined ? drawing.filterEntities(laneFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[] : [];
+
+                // Профили транспортных средств
+                const vehicleProfiles = parseVehicles(rule.vehicles);
+                if (vehicleProfiles === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы профили транспортных средств'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Профили задаются через «;» видом транспортного средства (CAR, TRUCK, BUS) или «наименование: высота глаз, высота объекта»'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const vehicles: (VehicleProfile | undefined)[] = vehicleProfiles.length > 0 ? vehicleProfiles : [undefined];
+
+                // Пространственный индекс препятствий в коридоре, до которого достают лучи видимости
+                progress.details = ctx.tr('Построение пространственного индекса препятствий');
+                await new Promise<void>((resolve) => {
+                    setTimeout(resolve, 0);
+                });
+                const obstacleFinder = new ObstacleFinder(drawingLayer, obstacleLayers, surfaceLayers, obstacleClasses(drawing, rule, alignments));
+                obstacleFinder.buildIndex(alignmentCorridor(alignments, rule.viewDistance + LANE_MAX_OFFSET));
+                const workers = obstacleFinder.startWorkers(rule.maxWorkers);
+                if (rule.direction === MoveDirection.BOTH) {
+                    obstacleFinder.shareQueries();
+                }
 
                 progress.indeterminate = false;
-                let t0 = Date.now();
-
-                const viewPoint: vec3 = [0.0, 0.0, 0.0];
-                const objectPoint: vec3 = [0.0, 0.0, 0.0];
-                const direction: vec3 = [0.0, 0.0, 0.0];
-
-                // Перебор всех трасс
-                for (const alignment of alignments) {
-                    const modelName = alignment.modelName;
-                    let collection = messages[modelName];
-                    if (collection === undefined) {
-                        messages[modelName] = collection = [];
-                    }
-                    const length = alignment.length;
-                    let rangeStart = -1;
-                    let rangeKeyFrames = new Array<AlignmentVisibilityDiagnosticKeyFrame>();
-                    let obstaclesAtStation = new WeakSet<DwgModel3d>();
-
-                    // Проход по пикетам трассы
-                    for (let station = 0; station <= length; station += rule.viewPointStep) {
-                        if (Date.now() - t0 > 1000) {
-                            t0 = Date.now();
-                            const percents = station / length * 100;
-                            progress.label = percents.toFixed(2);
-                            progress.percents = percents;
-                            progress.details = ctx.tr('Расчет видимости на пикете {0}', alignment.toPK(station));
-                            await new Promise<void>((resolve) => {
-                                setTimeout(resolve, 0);
-                            });
+                const reporter = new ProgressReporter(progress);
+                // Общий ход выполнения считается по суммарной длине трасс, проходимых для каждого профиля
+                const totalLength = alignments.reduce((sum, alignment) => sum + alignment.length, 0) * vehicles.length;
+                let doneLength = 0;
+
+                try {
+                    // Перебор всех трасс
+                    for (let alignmentIndex = 0; alignmentIndex < alignments.length; ++alignmentIndex) {
+                        const alignment = alignments[alignmentIndex];
+                        // Направления одной трассы следуют подряд, начиная с прямого, и делят результаты поиска
+                        if (alignment.direction === MoveDirection.FORWARD) {
+                            obstacleFinder.clearShared();
+                        }
+                        const modelName = alignment.modelName;
+                        let collection = messages[modelName];
+                        if (collection === undefined) {
+                            messages[modelName] = collection = [];
                         }
+                        const length = alignment.length;
+                        const lanes = alignmentLanes(ctx, alignment, laneTables, laneAxes, rule.viewPointOffset);
 
-                        alignment.toWCS(viewPoint as unknown as vec2, [station, rule.viewPointOffset]) as unknown as vec3;
-                        viewPoint[2] = alignment.elevationAt(station) + rule.viewPointElevation;
-                        let objectStation: number;
-                        let hasObstacles = false;
+                        // Проверка для каждого профиля транспортного средства; без профилей — по высотам правила
+                        for (let vehicleIndex = 0; vehicleIndex < vehicles.length; ++vehicleIndex) {
+                            const vehicle = vehicles[vehicleIndex];
+                            const vehicleRule = vehicle !== undefined
+                                ? { ...rule, viewPointElevation: vehicle.viewPointElevation, objectElevation: vehicle.objectElevation }
+                                : rule;
 
-                        // Поиск препятствий на пути к объекту
-                        for (objectStation = station + rule.objectStep; objectStation <= length; objectStation += rule.objectStep) {
-                            alignment.toWCS(objectPoint as unknown as vec2, [objectStation, rule.objectOffset]) as unknown as vec3;
-                            objectPoint[2] = alignment.elevationAt(objectStation) + rule.objectElevation;
+                            // Проход по пикетам трассы: на каждом пикете проверяются все полосы
+                            const sightLines = vehicleRule.sightLines ? new SightLineCollector(alignment) : undefined;
+                            const lanePoint: vec3 = [0.0, 0.0, 0.0];
+                            const viewPoint: vec3 = [0.0, 0.0, 0.0];
+                            const objectPoint: vec3 = [0.0, 0.0, 0.0];
+                            // Граница требуемой видимости на предыдущем пикете каждой полосы для продолжения поиска
+                            const requiredStations = lanes.map(() => 0);
+                            // Положение объекта, с которого видимость прервалась на предыдущем пикете каждой полосы
+                            const breakStations = lanes.map(() => 0);
+                            let lastStation = -Infinity;
+                            const reportProgress = (station: number) => reporter.report(
+                                totalLength > 0 ? (doneLength + station) / totalLength : 1.0,
+                                () => `${vehicleMessage(ctx, vehicle, ctx.tr('Трасса {0} ({1} из {2}), расчет видимости на пикете {3} ({4})', alignment.source, `${alignmentIndex + 1}`, `${alignments.length}`, alignment.toPK(station), directionTitle(ctx, alignment.direction)))}; ${obstacleFinder.statistics(ctx)}`,
+                            );
+                            // Дополняет результаты проверки полос на пикете лучами видимости и расчисткой
+                            const complete = (station: number, sights: (StationSight | undefined)[]): StationScan => {
+                                // При уточнении пикеты идут не по порядку, и поиск границы начинается заново
+                                if (station < lastStation) {
+                                    requiredStations.fill(0);
+                                }
+                                lastStation = station;
+
+                                const scan: StationScan = { sights };
+                                if (vehicleRule.headlights) {
+                                    scan.headlights = lanes.map((lane) => headlightDistance(alignment, vehicleRule, lane, station));
+                                }
+                                for (let laneIndex = 0; laneIndex < lanes.length; ++laneIndex) {
+                                    const lane = lanes[laneIndex];
+                                    const sight = sights[laneIndex];
+                                    if (sight !== undefined) {
+                                        breakStations[laneIndex] = sight.objectStation;
+                                    }
 
-                            Math3d.vec3.sub(direction, objectPoint, viewPoint);
-                            const distance = Math3d.vec3.len(direction);
-                            if (distance > rule.viewDistance) {
-                                break;
+                                    // Требуемый луч видимости для огибающей зоны видимости и расчистки на кривых
+                                    const viewPointOffset = lane.offsetAt(station);
+                                    if ((sightLines !== undefined || vehicleRule.clearance) && viewPointOffset !== undefined) {
+                                        viewPointAt(viewPoint, alignment, vehicleRule, viewPointOffset, station);
+                                        const requiredStation = requiredStations[laneIndex] = requiredObjectStation(alignment, vehicleRule, lane, station, viewPoint, requiredStations[laneIndex]);
+                                        objectPointAt(objectPoint, alignment, vehicleRule, lane, station, requiredStation);
+                                        sightLines?.addSightLine(viewPoint, objectPoint);
+
+                                        const clearance = vehicleRule.clearance
+                                            ? sightClearance(alignment, viewPoint, objectPoint, viewPointOffset, objectOffsetAt(vehicleRule, lane, station, requiredStation), (s) => lane.offsetAt(s) ?? viewPointOffset)
+                                            : undefined;
+                                        if (clearance !== undefined) {
+                                            if (clearance.offset > (scan.clearance?.offset ?? -Infinity)) {
+                                                scan.clearance = clearance;
+                                            }
+                                            // Препятствия между полосой и серединой луча на высоте луча
+                                            alignment.toWCS(lanePoint as unknown as vec2, [clearance.station, clearance.laneOffset]);
+                                            lanePoint[2] = clearance.point[2];
+                                            for (const obstacle of obstacleFinder.find(lanePoint, clearance.point)) {
+                                                (scan.clearanceObstacles ??= []).push(obstacle);
+                                            }
+                                        }
+                                    }
+                                }
+                                return scan;
+                            };
+                            // Пикеты, на которых поиск делением пополам разошелся с последовательным перебором
+                            const searchMismatches: number[] = [];
+                            const searchCounts = lanes.map(() => 0);
+                            const sightAt = (lane: Lane, laneIndex: number, station: number): StationSight | undefined => {
+                                if (vehicleRule.search !== SightSearch.BISECTION) {
+                                    return traceSight(alignment, obstacleFinder, vehicleRule, lane, station);
+                                }
+                                const sight = searchSight(alignment, obstacleFinder, vehicleRule, lane, station, breakStations[laneIndex]);
+                                // Контрольная проверка: при расхождении применяется результат перебора
+                                if (sight !== undefined && ++searchCounts[laneIndex] % SEARCH_CHECK_INTERVAL === 0) {
+                                    const exact = traceSight(alignment, obstacleFinder, vehicleRule, lane, station);
+                                    if (exact !== undefined && Math.abs(exact.objectStation - sight.objectStation) > vehicleRule.objectStep * 0.5) {
+                                        searchMismatches.push(station);
+                                        return exact;
+                                    }
+                                }
+                                return sight;
+                            };
+                            const evaluate = async (station: number): Promise<StationScan> => {
+                                await reportProgress(station);
+                                return complete(station, lanes.map((lane, laneIndex) => sightAt(lane, laneIndex, station)));
+                            };
+                            // Начальный проход в потоках вычисления: пикеты передаются пакетами
+                            const evaluateMany = async (stations: number[]): Promise<StationScan[]> => {
+                                const scans: StationScan[] = [];
+                                const batch = WORKER_BATCH * workers;
+                                for (let start = 0; start < stations.length; start += batch) {
+                                    await reportProgress(stations[start]);
+                                    const chunk = stations.slice(start, start + batch);
+                                    const groups = chunk.flatMap((station) => lanes.map((lane) => sightRays(alignment, vehicleRule, lane, station)));
+                                    const found = await obstacleFinder.castRays(groups.filter((group): group is RayGroup => group !== undefined));
+                                    let next = 0;
+                                    chunk.forEach((station, i) => {
+                                        scans.push(complete(station, lanes.map((_, laneIndex) => {
+                                            const group = groups[i * lanes.length + laneIndex];
+                                            return group !== undefined ? sightFromRays(alignment, obstacleFinder, vehicleRule, station, group, found[next++]) : undefined;
+                                        })));
+                                    });
+                                }
+                                return scans;
+                            };
+                            const scanBlocked = (scan: StationScan) => scan.sights.some((sight) => (sight?.obstacles.length ?? 0) > 0);
+                            const scanDark = (scan: StationScan) => scan.headlights?.some((headlight) => headlight?.dark ?? false) ?? false;
+                            const samples = await scanStations(
+                                0,
+                                length,
+                                vehicleRule.adaptive ? vehicleRule.coarseStep : vehicleRule.viewPointStep,
+                                vehicleRule.adaptive ? vehicleRule.stationTolerance : Infinity,
+                                evaluate,
+                                (a, b) => scanBlocked(a) === scanBlocked(b) && scanDark(a) === scanDark(b),
+                                obstacleFinder.parallel ? evaluateMany : undefined,
+                            );
+                            doneLength += length;
+                            if (searchMismatches.length > 0) {
+                                collection.push({
+                                    message: vehicleMessage(ctx, vehicle, ctx.tr('Поиск границы видимости делением пополам разошелся с последовательным перебором на {0} контрольных пикетах, первый {1}', `${searchMismatches.length}`, alignment.toPK(Math.min(...searchMismatches)))),
+                                    severity: DiagnosticSeverity.Warning,
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                                    tooltip: ctx.tr('Видимость прерывается на отрезках пути объекта короче шага поиска {0} м: уменьшите шаг поиска или используйте последовательный перебор', vehicleRule.searchTolerance.toFixed(1)),
+                                });
                             }
-                            Math3d.vec3.mul(direction, direction, 1.0 / distance);
-                            const frustum = new SegmentFrustum(viewPoint, objectPoint);
+                            const stations = samples.map((sample) => sample.station);
+                            const sights = lanes.map((_, laneIndex) => samples.map((sample) => sample.value.sights[laneIndex]));
+                            // Наибольшая среди полос расчистка на кривых и препятствия в зоне расчистки
+                            const clearances = samples.map((sample) => sample.value.clearance);
+                            const clearanceObstacles = samples.map((sample) => sample.value.clearanceObstacles);
+
+                            // Формирование диагностических сообщений по участкам, где видимость нарушена хотя бы с одной полосы
+                            const isBlocked = (i: number) => sights.some((laneSights) => (laneSights[i]?.obstacles.length ?? 0) > 0);
+                            const pushRange = (from: number, to: number) => {
+                                const rangeEnd = to < stations.length ? stations[to] : length;
 
-                            // Поиск 3D-объектов, пересекающих сегмент
-                            const obstacles = drawingLayer.selectableObjects(frustum, (obj) => {
-                                if (obj.type !== DwgType.model3d || !obstacleLayers.has(obj.layer)) {
-                                    return false;
+                                // Полоса с наименьшим фактическим расстоянием видимости на участке
+                                let worstLane = 0;
+                                let worstDistance = Infinity;
+                                const obstacles = new Set<Obstacle>();
+                                let surfaceAtRange = false;
+                                for (let laneIndex = 0; laneIndex < lanes.length; ++laneIndex) {
+                                    for (let i = from; i < to; ++i) {
+                                        const sight = sights[laneIndex][i];
+                                        if (sight === undefined || sight.obstacles.length === 0) {
+                                            continue;
+                                        }
+                                        for (const obstacle of sight.obstacles) {
+                                            obstacles.add(obstacle);
+                                            surfaceAtRange ||= obstacleFinder.isSurface(obstacle);
+                                        }
+                                        if (sight.distance < worstDistance) {
+                                            worstDistance = sight.distance;
+                                            worstLane = laneIndex;
+                                        }
+                                    }
                                 }
 
-                                const model = obj as DwgModel3d;
-                                let inverse = inverseMatrices.get(model);
-                                if (inverse === undefined) {
-                                    inverse = Math3d.mat4.inverse(Math3d.mat4.alloc(), model.matrix);
-                                    inverseMatrices.set(model, inverse);
+                                const keyFrames = new Array<AlignmentVisibilityDiagnosticKeyFrame>();
+                                for (let i = from; i < to; ++i) {
+                                    const sight = sights[worstLane][i];
+                                    if (sight === undefined || sight.obstacles.length === 0) {
+                                        continue;
+                                    }
+                                    if (sightLines !== undefined) {
+                                        const lane = lanes[worstLane];
+                                        viewPointAt(viewPoint, alignment, vehicleRule, lane.offsetAt(sight.station)!, sight.station);
+                                        sightLines.addFailingLine(sight.station, viewPoint, objectPointAt(objectPoint, alignment, vehicleRule, lane, sight.station, sight.objectStation));
+                                    }
+                                    if ((keyFrames.length > 1) && (Math.abs(keyFrames[keyFrames.length - 1][1] - keyFrames[keyFrames.length - 2][1]) < 0.01)) {
+                                        keyFrames[keyFrames.length - 1][0] = sight.station;
+                                        keyFrames[keyFrames.length - 1][1] = sight.objectStation;
+                                    } else {
+                                        keyFrames.push([sight.station, sight.objectStation]);
+                                    }
                                 }
 
-                                return modelIntersectsSegment(model, inverse, viewPoint, objectPoint);
-                            }) as Generator<DwgModel3d>;
+                                const lane = lanes[worstLane];
+                                const message = vehicleMessage(ctx, vehicle, lanes.length > 1
+                                    ? ctx.tr('На участке от {0} до {1} видимость не обеспечена, наихудшая полоса: {2}', alignment.toPK(stations[from]), alignment.toPK(rangeEnd), lane.name)
+                                    : ctx.tr('На участке от {0} до {1} видимость не обеспечена', alignment.toPK(stations[from]), alignment.toPK(rangeEnd)));
+                                results.push({
+                                    kind: ResultKind.ALIGNMENT,
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    from: stations[from],
+                                    to: rangeEnd,
+                                    fromPK: alignment.toPK(stations[from]),
+                                    toPK: alignment.toPK(rangeEnd),
+                                    lane: lane.name,
+                                    message,
+                                    vehicle: vehicle !== undefined ? vehicleTitle(ctx, vehicle) : undefined,
+                                    obstacles: [...obstacles].map(entityRef),
+                                    axis: axisPoints(alignment, stations[from], rangeEnd),
+                                });
+                                collection!.push({
+                                    message,
+                                    severity: DiagnosticSeverity.Error,
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                                    tooltip: rangeTooltip(ctx, surfaceAtRange, requirement),
+                                    activation: activateDiagnostic,
+                                    ctx,
+                                    alignment,
+                                    rule: vehicleRule,
+                                    lane,
+                                    keyFrames,
+                                    obstacles,
+                                    requirement,
+                                });
+                            };
 
-                            const obstacle = obstacles.next();
-                            if (!obstacle.done) {
-                                hasObstacles = true;
-                                obstaclesAtStation.add(obstacle.value);
-                                for (const obstacle of obstacles) {
-                                    obstaclesAtStation.add(obstacle);
+                            let rangeStart = -1;
+                            for (let i = 0; i < stations.length; ++i) {
+                                if (isBlocked(i)) {
+                                    if (rangeStart < 0) {
+                                        rangeStart = i;
+                                    }
+                                } else if (rangeStart >= 0) {
+                                    pushRange(rangeStart, i);
+                                    rangeStart = -1;
                                 }
-                                break;
                             }
-                        }
 
-                        // Формирование диагностических сообщений
-                        if (!hasObstacles) {
+                            // Завершение последнего диапазона
                             if (rangeStart >= 0) {
-                                collection.push({
-                                    message: ctx.tr('На участке от {0} до {1} видимость не обеспечена', alignment.toPK(rangeStart), alignment.toPK(station)),
+                                pushRange(rangeStart, stations.length);
+                            }
+
+                            if (sightLines !== undefined) {
+                                sightLineSets.push(sightLines.build());
+                            }
+
+                            // Участки, на которых дальность освещения фарами меньше требуемой хотя бы с одной полосы
+                            const pushDark = (from: number, to: number) => {
+                                const rangeEnd = to < stations.length ? stations[to] : length;
+
+                                // Полоса с наименьшей дальностью освещения на участке
+                                let worstLane = 0;
+                                let worstDistance = Infinity;
+                                for (let laneIndex = 0; laneIndex < lanes.length; ++laneIndex) {
+                                    for (let i = from; i < to; ++i) {
+                                        const headlight = samples[i].value.headlights?.[laneIndex];
+                                        if (headlight?.dark && headlight.distance < worstDistance) {
+                                            worstDistance = headlight.distance;
+                                            worstLane = laneIndex;
+                                        }
+                                    }
+                                }
+
+                                const keyFrames = new Array<AlignmentVisibilityDiagnosticKeyFrame>();
+                                for (let i = from; i < to; ++i) {
+                                    const headlight = samples[i].value.headlights?.[worstLane];
+                                    if (headlight?.dark) {
+                                        keyFrames.push([headlight.station, headlight.objectStation]);
+                                    }
+                                }
+
+                                const lane = lanes[worstLane];
+                                const message = vehicleMessage(ctx, vehicle, lanes.length > 1
+                                    ? ctx.tr('На участке от {0} до {1} дальность освещения фарами недостаточна, наихудшая полоса: {2}', alignment.toPK(stations[from]), alignment.toPK(rangeEnd), lane.name)
+                                    : ctx.tr('На участке от {0} до {1} дальность освещения фарами недостаточна', alignment.toPK(stations[from]), alignment.toPK(rangeEnd)));
+                                results.push({
+                                    kind: ResultKind.HEADLIGHT,
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    from: stations[from],
+                                    to: rangeEnd,
+                                    fromPK: alignment.toPK(stations[from]),
+                                    toPK: alignment.toPK(rangeEnd),
+                                    lane: lane.name,
+                                    message,
+                                    vehicle: vehicle !== undefined ? vehicleTitle(ctx, vehicle) : undefined,
+                                    obstacles: [],
+                                    axis: axisPoints(alignment, stations[from], rangeEnd),
+                                });
+                                collection!.push({
+                                    message,
                                     severity: DiagnosticSeverity.Error,
-                                    source: alignment.source,
-                                    tooltip: ctx.tr('Препятствия мешают видимости'),
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                                    tooltip: ctx.tr('Наименьшая дальность освещения {0} м при требуемой {1} м; высота фар {2} м, угол расхождения луча {3}°', worstDistance.toFixed(1), vehicleRule.viewDistance.toFixed(0), vehicleRule.headlightElevation.toFixed(2), vehicleRule.headlightAngle.toFixed(1)),
                                     activation: activateDiagnostic,
                                     ctx,
                                     alignment,
-                                    rule,
-                                    keyFrames: rangeKeyFrames,
-                                    obstacles: obstaclesAtStation,
+                                    rule: vehicleRule,
+                                    lane,
+                                    keyFrames,
+                                    obstacles: new Set<Obstacle>(),
+                                    requirement,
                                 });
-                                rangeStart = -1;
-                                rangeKeyFrames = new Array<AlignmentVisibilityDiagnosticKeyFrame>();
-                                obstaclesAtStation = new WeakSet<DwgModel3d>();
+                            };
+
+                            if (vehicleRule.headlights) {
+                                let darkStart = -1;
+                                for (let i = 0; i <= stations.length; ++i) {
+                                    const dark = i < stations.length && scanDark(samples[i].value);
+                                    if (dark && darkStart < 0) {
+                                        darkStart = i;
+                                    } else if (!dark && darkStart >= 0) {
+                                        pushDark(darkStart, i);
+                                        darkStart = -1;
+                                    }
+                                }
                             }
-                        } else {
-                            if (rangeStart < 0) {
-                                rangeStart = station;
+
+                            // Участки кривых, на которых требуется расчистка видимости с одной стороны
+                            const pushClearance = (from: number, to: number) => {
+                                const side = clearances[from]!.side;
+                                const samples: ClearanceSample[] = [];
+                                const obstacles = new Set<Obstacle>();
+                                for (let i = from; i < to; ++i) {
+                                    samples.push({ station: stations[i], pk: alignment.toPK(stations[i]), side, offset: clearances[i]!.offset });
+                                    for (const obstacle of clearanceObstacles[i] ?? []) {
+                                        obstacles.add(obstacle);
+                                    }
+                                }
+                                const maxOffset = Math.max(...samples.map((sample) => sample.offset));
+                                const rangeEnd = to < stations.length ? stations[to] : length;
+                                const message = vehicleMessage(ctx, vehicle, ctx.tr('На участке от {0} до {1} требуется расчистка видимости {2} от оси на {3} м', alignment.toPK(stations[from]), alignment.toPK(rangeEnd), clearanceSideTitle(ctx, side), maxOffset.toFixed(2)));
+                                results.push({
+                                    kind: ResultKind.CLEARANCE,
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    from: stations[from],
+                                    to: rangeEnd,
+                                    fromPK: alignment.toPK(stations[from]),
+                                    toPK: alignment.toPK(rangeEnd),
+                                    message,
+                                    vehicle: vehicle !== undefined ? vehicleTitle(ctx, vehicle) : undefined,
+                                    obstacles: [...obstacles].map(entityRef),
+                                    axis: axisPoints(alignment, stations[from], rangeEnd),
+                                });
+                                collection!.push({
+                                    message,
+                                    severity: obstacles.size > 0 ? DiagnosticSeverity.Warning : DiagnosticSeverity.Information,
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                                    tooltip: obstacles.size > 0
+                                        ? ctx.tr('В зоне расчистки находятся препятствия: {0}', `${obstacles.size}`)
+                                        : ctx.tr('Препятствия в зоне расчистки не обнаружены'),
+                                    activation: activateClearanceDiagnostic,
+                                    ctx,
+                                    alignment,
+                                    samples,
+                                    obstacles,
+                                });
+                            };
+
+                            if (vehicleRule.clearance) {
+                                let clearanceStart = -1;
+                                for (let i = 0; i <= stations.length; ++i) {
+                                    const clearance = i < stations.length ? clearances[i] : undefined;
+                                    if (clearanceStart >= 0 && clearance?.side !== clearances[clearanceStart]!.side) {
+                                        pushClearance(clearanceStart, i);
+                                        clearanceStart = -1;
+                                    }
+                                    if (clearance !== undefined && clearanceStart < 0) {
+                                        clearanceStart = i;
+                                    }
+                                }
                             }
-                            if ((rangeKeyFrames.length > 1) && (Math.abs(rangeKeyFrames[rangeKeyFrames.length - 1][1] - rangeKeyFrames[rangeKeyFrames.length - 2][1]) < 0.01)) {
-                                rangeKeyFrames[rangeKeyFrames.length - 1][0] = station;
-                                rangeKeyFrames[rangeKeyFrames.length - 1][1] = objectStation;
-                            } else {
-                                rangeKeyFrames.push([station, objectStation]);
+
+                            // Профиль видимости по трассе: наименьшее расстояние среди полос
+                            if (vehicleRule.report === ReportMode.PROFILE && stations.length > 0) {
+                                const profile: SightDistanceProfile = {
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    requiredDistance: vehicleRule.viewDistance,
+                                    samples: [],
+                                };
+                                for (let i = 0; i < stations.length; ++i) {
+                                    let distance = Infinity;
+                                    let limited = false;
+                                    for (const laneSights of sights) {
+                                        const sight = laneSights[i];
+                                        if (sight !== undefined && (sight.distance < distance || (sight.distance === distance && !sight.limited))) {
+                                            distance = sight.distance;
+                                            limited = sight.limited;
+                                        }
+                                    }
+                                    if (isFinite(distance)) {
+                                        profile.samples.push({ station: stations[i], pk: alignment.toPK(stations[i]), distance, limited, clearance: clearances[i]?.offset });
+                                    }
+                                }
+                                profiles.push(profile);
+                                // Расстояния, ограниченные концом трассы, не сравниваются с требуемым
+                                const compared = profile.samples.filter((sample) => !sample.limited);
+                                const worst = compared.reduce((a, b) => b.distance < a.distance ? b : a, compared[0]);
+                                if (worst !== undefined) {
+                                    collection.push({
+                                        message: vehicleMessage(ctx, vehicle, ctx.tr('Профиль видимости: наименьшее расстояние {0} м на пикете {1}', worst.distance.toFixed(1), worst.pk)),
+                                        severity: DiagnosticSeverity.Information,
+                                        source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                                        tooltip: ctx.tr('Требуемое расстояние видимости {0} м', vehicleRule.viewDistance.toFixed(0)),
+                                        profile,
+                                    });
+                                }
                             }
                         }
                     }
+                } finally {
+                    obstacleFinder.dispose();
+                }
 
-                    // Завершение последнего диапазона
-                    if (rangeStart >= 0) {
-                        collection.push({
-                            message: ctx.tr('На участке от {0} до {1} видимость не обеспечена', alignment.toPK(rangeStart), alignment.toPK(length)),
-                            severity: DiagnosticSeverity.Error,
-                            source: alignment.source,
-                            tooltip: ctx.tr('Препятствия мешают видимости'),
-                            activation: activateDiagnostic,
-                            ctx,
-                            alignment,
-                            rule,
-                            keyFrames: rangeKeyFrames,
-                            obstacles: obstaclesAtStation,
-                        });
-                    }
+                if (rule.report === ReportMode.PROFILE) {
+                    setLastProfiles(profiles);
+                }
+                if (rule.sightLines) {
+                    setLastSightLines(drawing, sightLineSets);
                 }
+                setLastResults('rule:visibility:alignment', results);
 
                 // Сохранение результатов диагностики
                 for (const uri in messages) {
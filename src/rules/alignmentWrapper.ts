@@ -1,6 +1,27 @@
 export enum MoveDirection {
     FORWARD = "FORWARD",
     BACKWARD = "BACKWARD",
+    BOTH = "BOTH",
+}
+
+export type TravelDirection = MoveDirection.FORWARD | MoveDirection.BACKWARD;
+
+export function directionsOf(direction: MoveDirection): TravelDirection[] {
+    if (direction === MoveDirection.BOTH) {
+        return [MoveDirection.FORWARD, MoveDirection.BACKWARD];
+    }
+    return [direction];
+}
+
+export function directionTitle(ctx: Context, direction: MoveDirection): string {
+    switch (direction) {
+        case MoveDirection.FORWARD:
+            return ctx.tr('по пикетажу');
+        case MoveDirection.BACKWARD:
+            return ctx.tr('против пикетажа');
+        default:
+            return ctx.tr('в обоих направлениях');
+    }
 }
 
 export class AlignmentWrapper {
@@ -9,7 +30,7 @@ export class AlignmentWrapper {
     public readonly modelName: string;
     public readonly source: string;
 
-    constructor(alignment: DwgAlignment, private readonly direction: MoveDirection) {
+    constructor(alignment: DwgAlignment, public readonly direction: TravelDirection) {
         this.alignment = new WeakRef(alignment);
         this.length = alignment.length;
         this.modelName = alignment.layer?.modelName ?? '';
@@ -69,6 +90,10 @@ export class AlignmentWrapper {
         }
     }
 
+    fromForwardStation(station: number): number {
+        return this.direction === MoveDirection.FORWARD ? station : this.length - station;
+    }
+
     toPK(station: number): string {
         const alignment = this.alignment.deref();
         if (alignment === undefined) {
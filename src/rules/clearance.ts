@@ -0,0 +1,125 @@
+/**
+ * Модуль расчета расчистки видимости на кривых в плане.
+ *
+ * На кривой луч видимости проходит по хорде с внутренней стороны кривой.
+ * Расстояние от оси трассы до середины луча требуемой длины определяет, насколько
+ * с внутренней стороны кривой необходимо освободить полосу от препятствий.
+ *
+ * @packageDocumentation
+ */
+
+import { AlignmentWrapper } from './alignmentWrapper';
+
+/**
+ * Наименьшее отклонение середины луча от полосы (в метрах),
+ * при котором участок считается кривой.
+ */
+const CURVE_TOLERANCE = 0.05;
+
+/**
+ * Сторона трассы относительно направления движения.
+ */
+export enum ClearanceSide {
+    LEFT = "LEFT",
+    RIGHT = "RIGHT",
+}
+
+/**
+ * Расчистка видимости, требуемая для одного луча видимости.
+ */
+export interface SightClearance {
+    /**
+     * Положение середины луча (в метрах от начала трассы).
+     */
+    station: number;
+
+    /**
+     * Внутренняя сторона кривой.
+     */
+    side: ClearanceSide;
+
+    /**
+     * Расстояние от оси трассы до середины луча с внутренней стороны кривой (в метрах).
+     */
+    offset: number;
+
+    /**
+     * Смещение полосы наблюдателя от оси в положении середины луча (в метрах, со знаком).
+     */
+    laneOffset: number;
+
+    /**
+     * Середина луча в мировых координатах.
+     */
+    point: vec3;
+}
+
+/**
+ * Значение расчистки видимости на пикете.
+ */
+export interface ClearanceSample {
+    /**
+     * Положение точки наблюдения (в метрах от начала трассы по направлению движения).
+     */
+    station: number;
+
+    /**
+     * Пикетажное обозначение точки наблюдения.
+     */
+    pk: string;
+
+    /**
+     * Внутренняя сторона кривой.
+     */
+    side: ClearanceSide;
+
+    /**
+     * Расстояние от оси трассы, на котором необходимо расчистить препятствия (в метрах).
+     */
+    offset: number;
+}
+
+/**
+ * Возвращает наименование стороны трассы.
+ *
+ * @param ctx - Контекст приложения.
+ * @param side - Сторона трассы.
+ * @returns Наименование стороны.
+ */
+export function clearanceSideTitle(ctx: Context, side: ClearanceSide): string {
+    return side === ClearanceSide.LEFT ? ctx.tr('слева') : ctx.tr('справа');
+}
+
+const _stationOffset: vec2 = [0.0, 0.0];
+
+/**
+ * Вычисляет расчистку видимости по середине луча требуемой длины.
+ *
+ * Внутренняя сторона кривой определяется по отклонению середины луча от прямой,
+ * соединяющей смещения наблюдателя и объекта. На прямых участках расчистка не требуется.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param a - Точка наблюдения.
+ * @param b - Наблюдаемая точка на требуемом расстоянии.
+ * @param aOffset - Смещение точки наблюдения от оси трассы.
+ * @param bOffset - Смещение наблюдаемой точки от оси трассы.
+ * @param laneOffset - Смещение полосы наблюдателя от оси трассы в положении середины луча.
+ * @returns Расчистка видимости либо `undefined`, если луч не отклоняется от полосы.
+ */
+export function sightClearance(alignment: AlignmentWrapper, a: vec3, b: vec3, aOffset: number, bOffset: number, laneOffset: (station: number) => number): SightClearance | undefined {
+    const point: vec3 = [(a[0] + b[0]) * 0.5, (a[1] + b[1]) * 0.5, (a[2] + b[2]) * 0.5];
+    alignment.fromWCS(_stationOffset, point as unknown as vec2);
+    const [station, offset] = _stationOffset;
+    const deviation = offset - (aOffset + bOffset) * 0.5;
+    if (Math.abs(deviation) < CURVE_TOLERANCE) {
+        return undefined;
+    }
+    const side = deviation > 0 ? ClearanceSide.RIGHT : ClearanceSide.LEFT;
+    return {
+        station,
+        side,
+        offset: side === ClearanceSide.RIGHT ? offset : -offset,
+        laneOffset: laneOffset(station),
+        point,
+    };
+}
@@ -0,0 +1,97 @@
+/**
+ * Модуль поиска пересечений трасс в плане.
+ *
+ * Трассы аппроксимируются ломаными с шагом {@link CROSSING_STEP}, положение точки
+ * пересечения на каждой трассе интерполируется по найденным звеньям ломаных.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Шаг аппроксимации трассы ломаной при поиске пересечений (в метрах).
+ */
+const CROSSING_STEP = 2.0;
+
+/**
+ * Пересечение двух трасс в плане.
+ */
+export interface Crossing {
+    /**
+     * Точка пересечения в мировых координатах.
+     */
+    point: vec2;
+
+    /**
+     * Положение точки пересечения на первой трассе (в метрах от начала трассы).
+     */
+    stationA: number;
+
+    /**
+     * Положение точки пересечения на второй трассе (в метрах от начала трассы).
+     */
+    stationB: number;
+}
+
+/**
+ * Аппроксимирует трассу ломаной.
+ *
+ * @param alignment - Трасса.
+ * @returns Вершины ломаной и их положения на трассе.
+ */
+function polyline(alignment: DwgAlignment): { points: vec2[], stations: number[] } {
+    const length = alignment.length;
+    const n = Math.max(Math.ceil(length / CROSSING_STEP), 1);
+    const points: vec2[] = [];
+    const stations: number[] = [];
+    for (let i = 0; i <= n; ++i) {
+        const station = length * i / n;
+        points.push(alignment.toWCS([0.0, 0.0], [station, 0.0]));
+        stations.push(station);
+    }
+    return { points, stations };
+}
+
+/**
+ * Находит пересечения двух трасс в плане.
+ *
+ * @param a - Первая трасса.
+ * @param b - Вторая трасса.
+ * @returns Пересечения в порядке возрастания положения на первой трассе.
+ */
+export function findCrossings(a: DwgAlignment, b: DwgAlignment): Crossing[] {
+    const pa = polyline(a);
+    const pb = polyline(b);
+    const crossings: Crossing[] = [];
+    for (let i = 0; i + 1 < pa.points.length; ++i) {
+        const [x1, y1] = pa.points[i];
+        const [x2, y2] = pa.points[i + 1];
+        const minX = Math.min(x1, x2), maxX = Math.max(x1, x2);
+        const minY = Math.min(y1, y2), maxY = Math.max(y1, y2);
+        for (let j = 0; j + 1 < pb.points.length; ++j) {
+            const [x3, y3] = pb.points[j];
+            const [x4, y4] = pb.points[j + 1];
+            // Быстрое отсечение по габаритам звеньев
+            if (Math.max(x3, x4) < minX || Math.min(x3, x4) > maxX || Math.max(y3, y4) < minY || Math.min(y3, y4) > maxY) {
+                continue;
+            }
+            const d = (x2 - x1) * (y4 - y3) - (y2 - y1) * (x4 - x3);
+            if (Math.abs(d) < 1e-12) {
+                continue;
+            }
+            const t = ((x3 - x1) * (y4 - y3) - (y3 - y1) * (x4 - x3)) / d;
+            const u = ((x3 - x1) * (y2 - y1) - (y3 - y1) * (x2 - x1)) / d;
+            // Полуоткрытые звенья, чтобы пересечение в общей вершине не учитывалось дважды
+            const lastA = i + 2 === pa.points.length;
+            const lastB = j + 2 === pb.points.length;
+            if (t < 0 || (lastA ? t > 1 : t >= 1) || u < 0 || (lastB ? u > 1 : u >= 1)) {
+                continue;
+            }
+            crossings.push({
+                point: [x1 + (x2 - x1) * t, y1 + (y2 - y1) * t],
+                stationA: pa.stations[i] + (pa.stations[i + 1] - pa.stations[i]) * t,
+                stationB: pb.stations[j] + (pb.stations[j + 1] - pb.stations[j]) * u,
+            });
+        }
+    }
+    return crossings.sort((x, y) => x.stationA - y.stationA);
+}
@@ -0,0 +1,440 @@
+/**
+ * Модуль для проверки видимости на пешеходных переходах.
+ *
+ * Реализует диагностическое правило, которое для каждого пешеходного перехода проверяет,
+ * что водитель на расстоянии видимости для остановки видит всю зону перехода на высоте ребенка,
+ * а пешеход, ожидающий на краю перехода, видит приближающийся по полосе автомобиль.
+ *
+ * @packageDocumentation
+ */
+
+import { DiagnosticSeverity, DwgType } from 'albatros/enums';
+import { ProgressReporter } from '../utils/progress';
+import { AlignmentWrapper, directionsOf, directionTitle, MoveDirection } from './alignmentWrapper';
+import { alignmentLanes, Lane, parseLanes } from './lanes';
+import { modelBounds, modelCenter } from './models';
+import { filterLayers, Obstacle, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, layerPath, ResultKind, setLastResults, VisibilityResult } from './results';
+import { stoppingDistance } from './sightTriangle';
+
+/**
+ * Шаг точек зоны перехода поперек дороги (в метрах).
+ */
+const ZONE_STEP = 1.0;
+
+/**
+ * Расстояние от края перехода до места ожидания пешехода (в метрах).
+ */
+const WAITING_MARGIN = 0.5;
+
+/**
+ * Наибольшее расстояние от оси трассы до перехода (в метрах),
+ * при котором переход считается относящимся к трассе.
+ */
+const CROSSWALK_MAX_OFFSET = 15.0;
+
+/**
+ * Правило проверки видимости на пешеходных переходах.
+ */
+interface CrosswalksVisibilityRule {
+    /**
+     * Фильтр для выбора слоёв трасс.
+     */
+    alignmentFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих пешеходные переходы.
+     */
+    crosswalkFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих препятствия.
+     */
+    obstacleFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв поверхностей рельефа и дороги.
+     * Пустой фильтр отключает учёт поверхностей.
+     */
+    surfaceFilter: string;
+
+    /**
+     * Направление движения вдоль трассы.
+     */
+    direction: MoveDirection;
+
+    /**
+     * Расчётная скорость приближения к переходу (в км/ч).
+     */
+    designSpeed: number;
+
+    /**
+     * Смещение глаз водителя от оси трассы (в метрах).
+     * Используется, если полосы движения не заданы.
+     */
+    viewPointOffset: number;
+
+    /**
+     * Полосы движения, с которых проверяется видимость.
+     */
+    lanes: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих оси полос модели коридора.
+     */
+    laneFilter: string;
+
+    /**
+     * Высота глаз водителя над уровнем трассы (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Высота глаз пешехода над уровнем трассы (в метрах).
+     */
+    pedestrianElevation: number;
+
+    /**
+     * Рост ребенка (в метрах): высота, на которой водитель должен видеть зону перехода.
+     */
+    childElevation: number;
+
+    /**
+     * Шаг положения водителя вдоль участка приближения (в метрах).
+     */
+    viewPointStep: number;
+}
+
+/**
+ * Диагностика видимости на пешеходном переходе.
+ */
+interface CrosswalkVisibilityDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Трасса с направлением движения.
+     */
+    alignment: AlignmentWrapper;
+
+    /**
+     * Правило, по которому выполнялась проверка.
+     */
+    rule: CrosswalksVisibilityRule;
+
+    /**
+     * Пешеходный переход.
+     */
+    crosswalk: WeakRef<DwgModel3d>;
+
+    /**
+     * Полоса, с которой видимость нарушена.
+     */
+    lane: Lane;
+
+    /**
+     * Препятствия, мешающие видимости.
+     */
+    obstacles: Set<Obstacle>;
+
+    /**
+     * Начало участка приближения, на котором видимость нарушена (в метрах от начала трассы).
+     */
+    rangeStart: number;
+
+    /**
+     * Положение перехода (в метрах от начала трассы).
+     */
+    crosswalkStation: number;
+}
+
+/**
+ * Коэффициент замедления анимации при активации диагностики.
+ */
+let slowdown = 1.0;
+
+/**
+ * Активирует анимацию диагностики: водитель приближается к переходу и смотрит на его центр.
+ *
+ * @param diagnostic - Диагностика, которую нужно активировать.
+ * @param active - Флаг повторной активации сообщения
+ */
+function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
+    slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
+
+    const { ctx, alignment, rule, crosswalk, lane, obstacles, rangeStart, crosswalkStation } = diagnostic as CrosswalkVisibilityDiagnostic;
+    const cadview = ctx.cadview;
+    if (!cadview) return;
+
+    const obj = crosswalk.deref();
+    if (!obj) return;
+
+    const center: vec3 = [0.0, 0.0, 0.0];
+    if (!modelCenter(center, obj)) return;
+
+    const distance = crosswalkStation - rangeStart;
+    const speed = 17 * slowdown; // 17 м/с с учётом slowdown
+    const duration = Math.max(Math.abs(distance) / speed, 1.0);
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((o) => obstacles.has(o) || o === obj, true);
+
+    const position: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [0.0, 0.0, 0.0];
+    cadview.animate(duration, (t: number) => {
+        t = Math.min(t, 1.0);
+        const station = rangeStart + t * distance;
+        position[0] = station;
+        position[1] = lane.offsetAt(station) ?? rule.viewPointOffset;
+        alignment.toWCS(position as unknown as vec2, position as unknown as vec2);
+        position[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+        Math3d.vec3.sub(direction, center, position);
+        Math3d.vec3.normalize(direction, direction);
+        cadview.lookAt(position, direction, undefined, false, center);
+        cadview.invalidate();
+    });
+}
+
+/**
+ * Экспорт правила диагностики видимости на пешеходных переходах.
+ */
+export default {
+    /**
+     * Правило проверки видимости на пешеходных переходах.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Объект правила диагностики.
+     */
+    'rule:visibility:crosswalks': (ctx: Context): DiagnosticRule<CrosswalksVisibilityRule> => {
+        return {
+            /**
+             * Создаёт и возвращает стандартные параметры правила.
+             *
+             * @returns Объект правила по умолчанию.
+             */
+            async createRule() {
+                return {
+                    alignmentFilter: '$type_1 = SmdxElement',
+                    crosswalkFilter: '$type_3 = SmdxCrosswalkItem',
+                    obstacleFilter: '$type_1 = SmdxElement',
+                    surfaceFilter: '',
+                    direction: MoveDirection.BOTH,
+                    designSpeed: 60,
+                    viewPointOffset: 1.75,
+                    lanes: '',
+                    laneFilter: '',
+                    viewPointElevation: 1.2,
+                    pedestrianElevation: 1.5,
+                    childElevation: 0.9,
+                    viewPointStep: 1,
+                };
+            },
+
+            /**
+             * Проверяет видимость на каждом пешеходном переходе вдоль трасс.
+             *
+             * @param app - Приложение, в котором выполняется проверка.
+             * @param rule - Правило проверки.
+             * @param diagnostics - Коллекция диагностики для добавления результатов.
+             * @param progress - Объект для отслеживания прогресса выполнения.
+             */
+            async execute(app: Application, rule: CrosswalksVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
+                const drawing = app.model as Drawing;
+                if (drawing === undefined) {
+                    return;
+                }
+                const cadview = ctx.cadview;
+                if (cadview === undefined) {
+                    return;
+                }
+                const drawingLayer = cadview.layer.drawing;
+                if (drawingLayer === undefined) {
+                    return;
+                }
+
+                const modelName = drawing.layers.layer0?.modelName ?? '';
+                const messages: Record<string, (Diagnostic | CrosswalkVisibilityDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
+
+                // Получение трасс и переходов
+                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).flatMap(align => directionsOf(rule.direction).map(direction => new AlignmentWrapper(align as DwgAlignment, direction)));
+                const crosswalks = drawing.filterEntities(rule.crosswalkFilter, obj => obj.type === DwgType.model3d, false) as DwgModel3d[];
+                if (crosswalks.length === 0) {
+                    (messages[modelName] ??= []).push({
+                        message: ctx.tr('Не найдены подходящие слои пешеходных переходов'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Не удалось найти слои пешеходных переходов, удовлетворяющие заданному фильтру'),
+                        ctx,
+                    });
+                }
+
+                // Полосы движения водителя
+                const laneTables = parseLanes(rule.lanes);
+                if (laneTables === undefined) {
+                    (messages[modelName] ??= []).push({
+                        message: ctx.tr('Неверно заданы полосы движения'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Полосы задаются через «;» постоянным смещением или таблицей «пикет: смещение» через запятую'),
+                        ctx,
+                    });
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const laneFilter = rule.laneFilter?.trim() ? rule.laneFilter : undefined;
+                const laneAxes = laneFilter !== undefined ? drawing.filterEntities(laneFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[] : [];
+
+                const obstacleFinder = new ObstacleFinder(drawingLayer, drawing.filterLayers(rule.obstacleFilter, false), filterLayers(drawing, rule.surfaceFilter));
+                const approachLength = stoppingDistance(rule.designSpeed);
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
+                const center: vec3 = [0.0, 0.0, 0.0];
+                const stationOffset: vec2 = [0.0, 0.0];
+                const corner: vec2 = [0.0, 0.0];
+                const viewPoint: vec3 = [0.0, 0.0, 0.0];
+
+                for (let index = 0; index < crosswalks.length; ++index) {
+                    const crosswalk = crosswalks[index];
+                    const bounds = modelBounds(crosswalk);
+                    if (bounds === undefined || !modelCenter(center, crosswalk)) {
+                        continue;
+                    }
+                    for (const alignment of alignments) {
+                        // Положение перехода и его протяженность поперек трассы
+                        alignment.fromWCS(stationOffset, center as unknown as vec2);
+                        const crosswalkStation = stationOffset[0];
+                        if (crosswalkStation < 0 || crosswalkStation > alignment.length) {
+                            continue;
+                        }
+                        let minOffset = Infinity;
+                        let maxOffset = -Infinity;
+                        for (const x of [bounds.min[0], bounds.max[0]]) {
+                            for (const y of [bounds.min[1], bounds.max[1]]) {
+                                corner[0] = x;
+                                corner[1] = y;
+                                alignment.fromWCS(stationOffset, corner);
+                                minOffset = Math.min(minOffset, stationOffset[1]);
+                                maxOffset = Math.max(maxOffset, stationOffset[1]);
+                            }
+                        }
+                        if (minOffset > CROSSWALK_MAX_OFFSET || maxOffset < -CROSSWALK_MAX_OFFSET) {
+                            continue;
+                        }
+
+                        await reporter.report(index / crosswalks.length, () => ctx.tr('Проверка пешеходного перехода на пикете {0} ({1})', alignment.toPK(crosswalkStation), directionTitle(ctx, alignment.direction)));
+
+                        // Точки зоны перехода на высоте ребенка и места ожидания пешеходов по краям перехода
+                        const ground = alignment.elevationAt(crosswalkStation);
+                        const zone: vec3[] = [];
+                        const zoneCount = Math.max(Math.ceil((maxOffset - minOffset) / ZONE_STEP), 1);
+                        for (let i = 0; i <= zoneCount; ++i) {
+                            const point: vec3 = [0.0, 0.0, 0.0];
+                            alignment.toWCS(point as unknown as vec2, [crosswalkStation, minOffset + (maxOffset - minOffset) * i / zoneCount]);
+                            point[2] = ground + rule.childElevation;
+                            zone.push(point);
+                        }
+                        const waiting = [minOffset - WAITING_MARGIN, maxOffset + WAITING_MARGIN].map((offset): vec3 => {
+                            const point: vec3 = [0.0, 0.0, 0.0];
+                            alignment.toWCS(point as unknown as vec2, [crosswalkStation, offset]);
+                            point[2] = ground + rule.pedestrianElevation;
+                            return point;
+                        });
+
+                        const lanes = alignmentLanes(ctx, alignment, laneTables, laneAxes, rule.viewPointOffset);
+                        const approachStart = Math.max(crosswalkStation - approachLength, 0.0);
+                        for (const lane of lanes) {
+                            const obstacles = new Set<Obstacle>();
+                            let rangeStart = -1;
+                            let driverBlocked = false;
+                            let pedestrianBlocked = false;
+                            for (let station = approachStart; station < crosswalkStation; station += rule.viewPointStep) {
+                                const viewPointOffset = lane.offsetAt(station);
+                                if (viewPointOffset === undefined) {
+                                    continue;
+                                }
+                                alignment.toWCS(viewPoint as unknown as vec2, [station, viewPointOffset]);
+                                viewPoint[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+
+                                let blocked = false;
+                                // Водитель должен видеть всю зону перехода
+                                for (const point of zone) {
+                                    for (const obstacle of obstacleFinder.find(viewPoint, point, crosswalk)) {
+                                        obstacles.add(obstacle);
+                                        blocked = driverBlocked = true;
+                                    }
+                                }
+                                // Пешеход должен видеть водителя приближающегося автомобиля
+                                for (const point of waiting) {
+                                    for (const obstacle of obstacleFinder.find(point, viewPoint, crosswalk)) {
+                                        obstacles.add(obstacle);
+                                        blocked = pedestrianBlocked = true;
+                                    }
+                                }
+                                if (blocked && rangeStart < 0) {
+                                    rangeStart = station;
+                                }
+                            }
+                            if (rangeStart < 0) {
+                                continue;
+                            }
+
+                            const failures: string[] = [];
+                            if (driverBlocked) {
+                                failures.push(ctx.tr('водитель не видит зону перехода'));
+                            }
+                            if (pedestrianBlocked) {
+                                failures.push(ctx.tr('пешеход не видит приближающийся автомобиль'));
+                            }
+                            const crosswalkPK = alignment.toPK(crosswalkStation);
+                            const message = lanes.length > 1
+                                ? ctx.tr('Видимость на пешеходном переходе {0} не обеспечена с {1}: {2}, полоса: {3}', crosswalkPK, alignment.toPK(rangeStart), failures.join(', '), lane.name)
+                                : ctx.tr('Видимость на пешеходном переходе {0} не обеспечена с {1}: {2}', crosswalkPK, alignment.toPK(rangeStart), failures.join(', '));
+                            results.push({
+                                kind: ResultKind.CROSSWALK,
+                                alignment: alignment.source,
+                                direction: alignment.direction,
+                                from: rangeStart,
+                                to: crosswalkStation,
+                                fromPK: alignment.toPK(rangeStart),
+                                toPK: crosswalkPK,
+                                lane: lane.name,
+                                message,
+                                obstacles: [...obstacles].map(entityRef),
+                                target: entityRef(crosswalk),
+                                axis: axisPoints(alignment, rangeStart, crosswalkStation),
+                            });
+                            let collection = messages[alignment.modelName];
+                            if (collection === undefined) {
+                                messages[alignment.modelName] = collection = [];
+                            }
+                            collection.push({
+                                message,
+                                severity: DiagnosticSeverity.Error,
+                                source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}, ${layerPath(crosswalk)}`,
+                                tooltip: ctx.tr('Расстояние видимости для остановки {0} м', approachLength.toFixed(0)),
+                                activation: activateDiagnostic,
+                                ctx,
+                                alignment,
+                                rule,
+                                crosswalk: new WeakRef(crosswalk),
+                                lane,
+                                obstacles,
+                                rangeStart,
+                                crosswalkStation,
+                            });
+                        }
+                    }
+                }
+
+                setLastResults('rule:visibility:crosswalks', results);
+
+                // Сохранение результатов диагностики
+                for (const uri in messages) {
+                    diagnostics.set(uri, messages[uri]);
+                }
+            }
+        };
+    },
+};
@@ -0,0 +1,317 @@
+/**
+ * Модуль для проверки треугольников видимости на пересечениях в одном уровне.
+ *
+ * Реализует диагностическое правило, которое находит пересечения главных и второстепенных
+ * трасс, строит треугольники видимости для водителя, приближающегося по второстепенной
+ * дороге, и транспортных средств на главной дороге и выявляет препятствия внутри треугольников.
+ *
+ * @packageDocumentation
+ */
+
+import { DiagnosticSeverity, DwgType } from 'albatros/enums';
+import { ProgressReporter } from '../utils/progress';
+import { AlignmentWrapper, directionTitle, MoveDirection, TravelDirection } from './alignmentWrapper';
+import { findCrossings } from './crossings';
+import { filterLayers, Obstacle, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, layerPath, ResultKind, setLastResults, VisibilityResult } from './results';
+import { approachLeg, legPoint, SightTriangle, stoppingDistance, travelDistance, triangleObstacles } from './sightTriangle';
+
+/**
+ * Правило проверки видимости на пересечениях.
+ */
+interface IntersectionVisibilityRule {
+    /**
+     * Фильтр для выбора слоёв, содержащих трассы главных дорог.
+     */
+    majorFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих трассы второстепенных дорог.
+     */
+    minorFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих препятствия.
+     */
+    obstacleFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв поверхностей рельефа и дороги.
+     * Пустой фильтр отключает учёт поверхностей.
+     */
+    surfaceFilter: string;
+
+    /**
+     * Расчётная скорость на главной дороге (в км/ч).
+     */
+    majorSpeed: number;
+
+    /**
+     * Скорость приближения к пересечению по второстепенной дороге (в км/ч).
+     */
+    minorSpeed: number;
+
+    /**
+     * Интервал времени, за который транспортное средство на главной дороге
+     * приближается к пересечению (в секундах).
+     */
+    timeGap: number;
+
+    /**
+     * Смещение глаз водителя от оси второстепенной дороги по ходу движения (в метрах).
+     */
+    viewPointOffset: number;
+
+    /**
+     * Высота глаз водителя над уровнем второстепенной дороги (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Смещение транспортного средства от оси главной дороги по ходу его движения (в метрах).
+     */
+    objectOffset: number;
+
+    /**
+     * Высота наблюдаемой точки транспортного средства над уровнем главной дороги (в метрах).
+     */
+    objectElevation: number;
+
+    /**
+     * Шаг положения водителя вдоль участка приближения (в метрах).
+     */
+    viewPointStep: number;
+}
+
+/**
+ * Диагностика треугольника видимости.
+ */
+interface IntersectionVisibilityDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Треугольник видимости, в котором обнаружены препятствия.
+     */
+    triangle: SightTriangle;
+
+    /**
+     * Препятствия внутри треугольника видимости.
+     */
+    obstacles: Set<Obstacle>;
+
+    /**
+     * Наименьшая доля участка приближения, с которой водитель не видит транспортное средство.
+     */
+    blockedFrom: number;
+}
+
+/**
+ * Коэффициент замедления анимации при активации диагностики.
+ */
+let slowdown = 1.0;
+
+/**
+ * Активирует анимацию диагностики: водитель приближается к пересечению
+ * по второстепенной дороге и смотрит на транспортное средство на главной дороге.
+ *
+ * @param diagnostic - Диагностика, которую нужно активировать.
+ * @param active - Флаг повторной активации сообщения
+ */
+function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
+    slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
+
+    const { ctx, triangle, obstacles, blockedFrom } = diagnostic as IntersectionVisibilityDiagnostic;
+    const cadview = ctx.cadview;
+    if (!cadview) return;
+
+    const { observer, target } = triangle;
+    const distance = (observer.end - observer.start) * (1.0 - blockedFrom);
+    const speed = 17 * slowdown; // 17 м/с с учётом slowdown
+    const duration = Math.max(distance / speed, 1.0);
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((obj) => obstacles.has(obj), true);
+
+    const position: vec3 = [0.0, 0.0, 0.0];
+    const pivot: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [0.0, 0.0, 0.0];
+    cadview.animate(duration, (t: number) => {
+        t = blockedFrom + Math.min(t, 1.0) * (1.0 - blockedFrom);
+        legPoint(position, observer, t);
+        legPoint(pivot, target, t);
+        Math3d.vec3.sub(direction, pivot, position);
+        Math3d.vec3.normalize(direction, direction);
+        cadview.lookAt(position, direction, undefined, false, pivot);
+        cadview.invalidate();
+    });
+}
+
+/**
+ * Экспорт правила диагностики видимости на пересечениях.
+ */
+export default {
+    /**
+     * Правило проверки треугольников видимости на пересечениях в одном уровне.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Объект правила диагностики.
+     */
+    'rule:visibility:intersection': (ctx: Context): DiagnosticRule<IntersectionVisibilityRule> => {
+        return {
+            /**
+             * Создаёт и возвращает стандартные параметры правила.
+             *
+             * @returns Объект правила по умолчанию.
+             */
+            async createRule() {
+                return {
+                    majorFilter: '$type_1 = SmdxElement',
+                    minorFilter: '$type_1 = SmdxElement',
+                    obstacleFilter: '$type_1 = SmdxElement',
+                    surfaceFilter: '',
+                    majorSpeed: 80,
+                    minorSpeed: 40,
+                    timeGap: 7.5,
+                    viewPointOffset: 1.75,
+                    viewPointElevation: 1.2,
+                    objectOffset: 1.75,
+                    objectElevation: 1.2,
+                    viewPointStep: 1,
+                };
+            },
+
+            /**
+             * Находит пересечения трасс и проверяет треугольники видимости.
+             *
+             * Для каждого пересечения проверяется приближение по второстепенной дороге
+             * с обеих сторон и транспорт на главной дороге с обоих направлений.
+             *
+             * @param app - Приложение, в котором выполняется проверка.
+             * @param rule - Правило проверки.
+             * @param diagnostics - Коллекция диагностики для добавления результатов.
+             * @param progress - Объект для отслеживания прогресса выполнения.
+             */
+            async execute(app: Application, rule: IntersectionVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
+                const drawing = app.model as Drawing;
+                if (drawing === undefined) {
+                    return;
+                }
+                const cadview = ctx.cadview;
+                if (cadview === undefined) {
+                    return;
+                }
+                const drawingLayer = cadview.layer.drawing;
+                if (drawingLayer === undefined) {
+                    return;
+                }
+
+                const modelName = drawing.layers.layer0?.modelName ?? '';
+                const messages: Record<string, (Diagnostic | IntersectionVisibilityDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
+
+                // Получение главных и второстепенных трасс и их пересечений
+                const allMajors = drawing.filterEntities(rule.majorFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[];
+                const allMinors = drawing.filterEntities(rule.minorFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[];
+                // Роль трассы, удовлетворяющей обоим фильтрам, не определена: трасса не проверяется
+                const ambiguous = new Set(allMajors.filter((major) => allMinors.includes(major)));
+                for (const alignment of ambiguous) {
+                    (messages[alignment.layer?.modelName ?? modelName] ??= []).push({
+                        message: ctx.tr('Трасса {0} удовлетворяет фильтрам и главных, и второстепенных дорог', layerPath(alignment)),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Пересечения трассы не проверяются: уточните фильтры, чтобы трасса относилась только к одной из дорог'),
+                        ctx,
+                    });
+                }
+                const majors = allMajors.filter((major) => !ambiguous.has(major));
+                const minors = allMinors.filter((minor) => !ambiguous.has(minor));
+                const crossings = majors.flatMap((major) => minors
+                    .flatMap((minor) => findCrossings(major, minor).map((crossing) => ({ major, minor, crossing }))));
+                if (crossings.length === 0) {
+                    (messages[modelName] ??= []).push({
+                        message: ctx.tr('Не найдены пересечения трасс'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Трассы главных и второстепенных дорог, удовлетворяющие заданным фильтрам, не пересекаются'),
+                        ctx,
+                    });
+                }
+
+                const obstacleFinder = new ObstacleFinder(drawingLayer, drawing.filterLayers(rule.obstacleFilter, false), filterLayers(drawing, rule.surfaceFilter));
+                const minorLength = stoppingDistance(rule.minorSpeed);
+                const majorLength = travelDistance(rule.majorSpeed, rule.timeGap);
+                const directions: TravelDirection[] = [MoveDirection.FORWARD, MoveDirection.BACKWARD];
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
+
+                for (let index = 0; index < crossings.length; ++index) {
+                    const { major, minor, crossing } = crossings[index];
+                    const minorPK = minor.toPK(crossing.stationB);
+                    const majorPK = major.toPK(crossing.stationA);
+                    for (const minorDirection of directions) {
+                        const minorAlignment = new AlignmentWrapper(minor, minorDirection);
+                        const observer = approachLeg(minorAlignment, crossing.stationB, minorLength, rule.viewPointOffset, rule.viewPointElevation);
+                        if (observer === undefined) {
+                            continue;
+                        }
+                        let collection = messages[minorAlignment.modelName];
+                        if (collection === undefined) {
+                            messages[minorAlignment.modelName] = collection = [];
+                        }
+                        for (const majorDirection of directions) {
+                            const target = approachLeg(new AlignmentWrapper(major, majorDirection), crossing.stationA, majorLength, rule.objectOffset, rule.objectElevation);
+                            if (target === undefined) {
+                                continue;
+                            }
+                            await reporter.report(index / crossings.length, () => ctx.tr('Проверка пересечения {0} / {1}', minorPK, majorPK));
+
+                            // Веер лучей от водителя к транспортному средству внутри треугольника
+                            const triangle: SightTriangle = { observer, target };
+                            const { obstacles, blockedFrom } = triangleObstacles(triangle, obstacleFinder, rule.viewPointStep);
+                            if (obstacles.size === 0) {
+                                continue;
+                            }
+
+                            const message = ctx.tr(
+                                'Треугольник видимости пересечения {0} / {1} не свободен от препятствий: приближение {2}, транспорт на главной дороге {3}',
+                                minorPK, majorPK, directionTitle(ctx, minorDirection), directionTitle(ctx, majorDirection),
+                            );
+                            results.push({
+                                kind: ResultKind.INTERSECTION,
+                                alignment: minorAlignment.source,
+                                direction: minorDirection,
+                                from: observer.start,
+                                to: observer.end,
+                                fromPK: minorAlignment.toPK(observer.start),
+                                toPK: minorAlignment.toPK(observer.end),
+                                message,
+                                obstacles: [...obstacles].map(entityRef),
+                                axis: axisPoints(minorAlignment, observer.start, observer.end),
+                            });
+                            collection.push({
+                                message,
+                                severity: DiagnosticSeverity.Error,
+                                source: `${minorAlignment.source} × ${target.alignment.source}`,
+                                tooltip: ctx.tr('Участок приближения {0} м, участок главной дороги {1} м', (observer.end - observer.start).toFixed(0), (target.end - target.start).toFixed(0)),
+                                activation: activateDiagnostic,
+                                ctx,
+                                triangle,
+                                obstacles,
+                                blockedFrom,
+                            });
+                        }
+                    }
+                }
+
+                setLastResults('rule:visibility:intersection', results);
+
+                // Сохранение результатов диагностики
+                for (const uri in messages) {
+                    diagnostics.set(uri, messages[uri]);
+                }
+            }
+        };
+    },
+};
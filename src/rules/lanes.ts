@@ -0,0 +1,206 @@
+/**
+ * Модуль полос движения, с которых выполняется проверка видимости.
+ *
+ * Полоса задает смещение глаз наблюдателя от оси трассы в зависимости от пикета.
+ * Полосы описываются строкой (постоянным смещением или таблицей «пикет: смещение»)
+ * либо считываются из модели коридора по осям полос.
+ *
+ * @packageDocumentation
+ */
+
+import { AlignmentWrapper } from './alignmentWrapper';
+
+/**
+ * Шаг выборки осей полос при построении таблицы смещений (в метрах).
+ */
+const LANE_SAMPLE_STEP = 5.0;
+
+/**
+ * Наибольшее смещение оси полосы от оси трассы (в метрах),
+ * при котором полоса считается относящейся к трассе.
+ */
+export const LANE_MAX_OFFSET = 30.0;
+
+/**
+ * Полоса движения с переменным смещением от оси трассы.
+ *
+ * Пикеты и смещения заданы в системе координат направления движения,
+ * поэтому положительное смещение соответствует правой стороне по ходу движения.
+ */
+export class Lane {
+    /**
+     * @param name - Наименование полосы для сообщений.
+     * @param stations - Возрастающие пикеты таблицы смещений.
+     * @param offsets - Смещения оси полосы на пикетах таблицы.
+     * @param clamp - Продлевать ли крайние значения за пределы таблицы.
+     */
+    constructor(
+        public readonly name: string,
+        private readonly stations: number[],
+        private readonly offsets: number[],
+        private readonly clamp: boolean,
+    ) {}
+
+    /**
+     * Возвращает смещение полосы на пикете.
+     *
+     * @param station - Пикет в направлении движения (в метрах).
+     * @returns Смещение полосы либо `undefined`, если полоса на пикете отсутствует.
+     */
+    offsetAt(station: number): number | undefined {
+        const { stations, offsets } = this;
+        const last = stations.length - 1;
+        if (station <= stations[0]) {
+            return this.clamp || station === stations[0] ? offsets[0] : undefined;
+        }
+        if (station >= stations[last]) {
+            return this.clamp || station === stations[last] ? offsets[last] : undefined;
+        }
+        let i = 1;
+        while (stations[i] < station) {
+            ++i;
+        }
+        const t = (station - stations[i - 1]) / (stations[i] - stations[i - 1]);
+        return offsets[i - 1] + (offsets[i] - offsets[i - 1]) * t;
+    }
+}
+
+/**
+ * Описание полосы, разобранное из строки параметра правила.
+ * Пикеты заданы по направлению пикетажа.
+ */
+export type LaneTable = [station: number, offset: number][];
+
+/**
+ * Разбирает строку описания полос.
+ *
+ * Полосы разделяются точкой с запятой. Полоса задается постоянным смещением (`1.75`)
+ * либо таблицей пар «пикет: смещение» по пикетажу, разделенных запятыми (`0: 1.75, 200: 1.75, 250: 5.25`).
+ * Между пикетами таблицы смещение интерполируется линейно.
+ *
+ * @param spec - Строка описания полос.
+ * @returns Таблицы полос либо `undefined`, если строка содержит ошибку.
+ */
+export function parseLanes(spec: string | undefined): LaneTable[] | undefined {
+    const lanes: LaneTable[] = [];
+    if (spec === undefined) {
+        return lanes;
+    }
+    for (const laneSpec of spec.split(';')) {
+        if (laneSpec.trim() === '') {
+            continue;
+        }
+        const table: LaneTable = [];
+        for (const entry of laneSpec.split(',')) {
+            const parts = entry.split(':').map((part) => part.trim());
+            const values = parts.map(Number);
+            if (parts.some((part) => part === '') || !values.every(isFinite)) {
+                return undefined;
+            }
+            if (values.length === 1) {
+                table.push([0, values[0]]);
+            } else if (values.length === 2) {
+                table.push([values[0], values[1]]);
+            } else {
+                return undefined;
+            }
+        }
+        if (table.some(([station], i) => i > 0 && station <= table[i - 1][0])) {
+            return undefined;
+        }
+        lanes.push(table);
+    }
+    return lanes;
+}
+
+/**
+ * Строит полосы для трассы по разобранным таблицам.
+ *
+ * Смещения таблиц заданы по ходу движения, а пикеты — по пикетажу,
+ * поэтому для обратного направления пикеты пересчитываются.
+ *
+ * @param ctx - Контекст приложения.
+ * @param alignment - Трасса с направлением движения.
+ * @param tables - Таблицы полос.
+ * @returns Полосы движения.
+ */
+export function tableLanes(ctx: Context, alignment: AlignmentWrapper, tables: LaneTable[]): Lane[] {
+    return tables.map((table, index) => {
+        const rows = table
+            .map(([station, offset]): [number, number] => [alignment.fromForwardStation(station), offset])
+            .sort((a, b) => a[0] - b[0]);
+        return new Lane(
+            ctx.tr('Полоса {0}', `${index + 1}`),
+            rows.map(([station]) => station),
+            rows.map(([, offset]) => offset),
+            true,
+        );
+    });
+}
+
+/**
+ * Строит полосы по осям полос модели коридора.
+ *
+ * Оси полос выбираются с шагом, переводятся в систему координат трассы и
+ * учитываются, только если лежат справа от оси по ходу движения не далее {@link LANE_MAX_OFFSET}.
+ * Вне своего участка (например, до начала уширения) полоса считается отсутствующей.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param laneAxes - Оси полос модели коридора.
+ * @returns Полосы движения.
+ */
+export function corridorLanes(alignment: AlignmentWrapper, laneAxes: DwgAlignment[]): Lane[] {
+    const lanes: Lane[] = [];
+    const point: vec2 = [0.0, 0.0];
+    const stationOffset: vec2 = [0.0, 0.0];
+    for (const axis of laneAxes) {
+        const rows: [number, number][] = [];
+        const length = axis.length;
+        for (let s = 0; s <= length + LANE_SAMPLE_STEP * 0.5; s += LANE_SAMPLE_STEP) {
+            axis.toWCS(point, [Math.min(s, length), 0.0]);
+            alignment.fromWCS(stationOffset, point);
+            const [station, offset] = stationOffset;
+            if (station < 0 || station > alignment.length || offset <= 0 || offset > LANE_MAX_OFFSET) {
+                continue;
+            }
+            rows.push([station, offset]);
+        }
+        rows.sort((a, b) => a[0] - b[0]);
+        for (let i = rows.length - 1; i > 0; --i) {
+            if (rows[i][0] - rows[i - 1][0] < 1e-3) {
+                rows.splice(i, 1);
+            }
+        }
+        if (rows.length < 2) {
+            continue;
+        }
+        lanes.push(new Lane(
+            `${axis.layer?.layer?.name}/${axis.layer?.name}`,
+            rows.map(([station]) => station),
+            rows.map(([, offset]) => offset),
+            false,
+        ));
+    }
+    return lanes;
+}
+
+/**
+ * Определяет полосы, с которых проверяется видимость вдоль трассы.
+ *
+ * Объединяет полосы, заданные таблицами, и полосы модели коридора.
+ * Если полосы не заданы, используется единственная полоса с постоянным смещением наблюдателя.
+ *
+ * @param ctx - Контекст приложения.
+ * @param alignment - Трасса с направлением движения.
+ * @param tables - Таблицы полос из параметров правила.
+ * @param laneAxes - Оси полос модели коридора.
+ * @param viewPointOffset - Смещение наблюдателя по умолчанию.
+ * @returns Полосы движения.
+ */
+export function alignmentLanes(ctx: Context, alignment: AlignmentWrapper, tables: LaneTable[], laneAxes: DwgAlignment[], viewPointOffset: number): Lane[] {
+    const lanes = [...tableLanes(ctx, alignment, tables), ...corridorLanes(alignment, laneAxes)];
+    if (lanes.length === 0) {
+        lanes.push(new Lane(ctx.tr('Полоса наблюдателя'), [0], [viewPointOffset], true));
+    }
+    return lanes;
+}
@@ -0,0 +1,235 @@
+/**
+ * Модуль геометрических характеристик 3D-моделей, видимость которых проверяется.
+ *
+ * Позволяет определить центр модели, её габариты и точки лицевой поверхности,
+ * к которым строятся лучи видимости.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Габаритный параллелепипед в мировых координатах.
+ */
+export interface ModelBounds {
+    /**
+     * Минимальные координаты.
+     */
+    min: vec3;
+
+    /**
+     * Максимальные координаты.
+     */
+    max: vec3;
+}
+
+/**
+ * Вычисляет центр масс 3D-модели на основе её мешей и вершин.
+ * Результат записывается в переданный вектор `target`.
+ *
+ * @param target - Вектор, в который будет записан центр модели.
+ * @param model - 3D-модель, для которой вычисляется центр.
+ * @returns `true`, если центр был успешно вычислен; `false`, если модель пуста.
+ */
+export function modelCenter(target: vec3, model: DwgModel3d): boolean {
+    let success = false;
+
+    let x = 0;
+    let y = 0;
+    let z = 0;
+    let n = 0;
+
+    const meshes = model.meshes;
+    for (const id in meshes) {
+        const mesh = meshes[id];
+        const geometry = mesh.geometry;
+        if (geometry === undefined) {
+            continue;
+        }
+        success = true;
+
+        const { vertices, indices } = geometry;
+        for (let i = 0; i < indices.length; ++i) {
+            const i3 = indices[i] * 3;
+            x += vertices[i3];
+            y += vertices[i3 + 1];
+            z += vertices[i3 + 2];
+            ++n;
+        }
+    }
+    if (n === 0) {
+        return false;
+    }
+    Math3d.vec3.make(target, x / n, y / n, z / n);
+    Math3d.mat4.mulv3(target, model.matrix, target);
+    return success;
+}
+
+const _vertex: vec3 = [0.0, 0.0, 0.0];
+
+/**
+ * Вычисляет габариты 3D-модели в мировых координатах.
+ *
+ * @param model - 3D-модель.
+ * @returns Габариты модели либо `undefined`, если модель пуста.
+ */
+export function modelBounds(model: DwgModel3d): ModelBounds | undefined {
+    const min: vec3 = [Infinity, Infinity, Infinity];
+    const max: vec3 = [-Infinity, -Infinity, -Infinity];
+
+    const meshes = model.meshes;
+    for (const id in meshes) {
+        const geometry = meshes[id].geometry;
+        if (geometry === undefined) {
+            continue;
+        }
+        const { vertices } = geometry;
+        for (let i = 0; i + 2 < vertices.length; i += 3) {
+            Math3d.vec3.make(_vertex, vertices[i], vertices[i + 1], vertices[i + 2]);
+            Math3d.mat4.mulv3(_vertex, model.matrix, _vertex);
+            for (let k = 0; k < 3; ++k) {
+                min[k] = Math.min(min[k], _vertex[k]);
+                max[k] = Math.max(max[k], _vertex[k]);
+            }
+        }
+    }
+    if (min[0] > max[0]) {
+        return undefined;
+    }
+    return { min, max };
+}
+
+/**
+ * Формирует точки лицевой поверхности модели, видимой из точки наблюдения.
+ *
+ * Точки располагаются сеткой `grid × grid` в вертикальной плоскости, проходящей через центр
+ * габаритов перпендикулярно горизонтальному направлению взгляда, в пределах проекции габаритов.
+ * Для плоского щита знака такая плоскость совпадает с щитом.
+ *
+ * @param bounds - Габариты модели.
+ * @param viewPoint - Точка наблюдения.
+ * @param grid - Число точек по каждой стороне сетки.
+ * @returns Точки лицевой поверхности.
+ */
+export function faceSamples(bounds: ModelBounds, viewPoint: vec3, grid: number): vec3[] {
+    const { min, max } = bounds;
+    const cx = (min[0] + max[0]) * 0.5;
+    const cy = (min[1] + max[1]) * 0.5;
+    const hx = (max[0] - min[0]) * 0.5;
+    const hy = (max[1] - min[1]) * 0.5;
+
+    // Поперечное к взгляду горизонтальное направление
+    let dx = cx - viewPoint[0];
+    let dy = cy - viewPoint[1];
+    const d = Math.hypot(dx, dy);
+    if (d > 0) {
+        dx /= d;
+        dy /= d;
+    }
+    const ux = -dy;
+    const uy = dx;
+    const halfWidth = Math.abs(ux) * hx + Math.abs(uy) * hy;
+
+    const n = Math.max(Math.round(grid), 1);
+    const samples: vec3[] = [];
+    for (let i = 0; i < n; ++i) {
+        const u = halfWidth * ((2 * i + 1) / n - 1);
+        for (let j = 0; j < n; ++j) {
+            const z = min[2] + (max[2] - min[2]) * (j + 0.5) / n;
+            samples.push([cx + ux * u, cy + uy * u, z]);
+        }
+    }
+    return samples;
+}
+
+/**
+ * Доля различия площадей сторон щита, ниже которой лицевая сторона не определяется.
+ */
+const PLATE_SIDE_TOLERANCE = 0.1;
+
+/**
+ * Лицевая сторона щита модели.
+ */
+export interface PlateFacing {
+    /**
+     * Горизонтальная единичная нормаль лицевой стороны в мировых координатах.
+     */
+    normal: vec2;
+
+    /**
+     * Лицевая сторона не определяется по геометрии, и щит проверяется с обеих сторон.
+     */
+    twoSided: boolean;
+}
+
+/**
+ * Определяет направление лицевой стороны щита модели.
+ *
+ * Ось `Z` модели считается вертикальной, а нормалью щита — более тонкая из горизонтальных осей
+ * модели в её системе координат. Лицевая сторона выбирается по площади треугольников,
+ * обращенных вдоль нормали в каждую сторону: если площади почти равны (например, у щита,
+ * смоделированного замкнутым телом), щит считается двусторонним.
+ *
+ * @param model - 3D-модель знака.
+ * @returns Лицевая сторона либо `undefined`, если модель пуста или её горизонтальные оси вырождены.
+ */
+export function plateFacing(model: DwgModel3d): PlateFacing | undefined {
+    const min: vec2 = [Infinity, Infinity];
+    const max: vec2 = [-Infinity, -Infinity];
+    const meshes = model.meshes;
+    for (const id in meshes) {
+        const vertices = meshes[id].geometry?.vertices ?? [];
+        for (let i = 0; i + 2 < vertices.length; i += 3) {
+            for (let k = 0; k < 2; ++k) {
+                min[k] = Math.min(min[k], vertices[i + k]);
+                max[k] = Math.max(max[k], vertices[i + k]);
+            }
+        }
+    }
+    if (min[0] > max[0]) {
+        return undefined;
+    }
+    const axis = max[0] - min[0] <= max[1] - min[1] ? 0 : 1;
+
+    // Площади треугольников, обращенных вдоль оси в положительную и отрицательную стороны
+    let positive = 0.0;
+    let negative = 0.0;
+    for (const id in meshes) {
+        const geometry = meshes[id].geometry;
+        if (geometry === undefined) {
+            continue;
+        }
+        const { vertices, indices } = geometry;
+        for (let t = 0; t + 2 < indices.length; t += 3) {
+            const a3 = indices[t] * 3;
+            const b3 = indices[t + 1] * 3;
+            const c3 = indices[t + 2] * 3;
+            const u = axis === 0 ? 1 : 2;
+            const v = axis === 0 ? 2 : 0;
+            // Компонента векторного произведения сторон вдоль оси
+            const area = (vertices[b3 + u] - vertices[a3 + u]) * (vertices[c3 + v] - vertices[a3 + v])
+                - (vertices[b3 + v] - vertices[a3 + v]) * (vertices[c3 + u] - vertices[a3 + u]);
+            if (area > 0) {
+                positive += area;
+            } else {
+                negative -= area;
+            }
+        }
+    }
+
+    const origin: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [axis === 0 ? 1.0 : 0.0, axis === 1 ? 1.0 : 0.0, 0.0];
+    Math3d.mat4.mulv3(origin, model.matrix, origin);
+    Math3d.mat4.mulv3(direction, model.matrix, direction);
+    const normal: vec2 = [direction[0] - origin[0], direction[1] - origin[1]];
+    const length = Math.hypot(normal[0], normal[1]);
+    if (length < 1e-9) {
+        return undefined;
+    }
+    const sign = positive >= negative ? 1.0 : -1.0;
+    normal[0] *= sign / length;
+    normal[1] *= sign / length;
+    return {
+        normal,
+        twoSided: Math.abs(positive - negative) <= PLATE_SIDE_TOLERANCE * (positive + negative),
+    };
+}
@@ -0,0 +1,134 @@
+/**
+ * Модуль требований к видимости объектов разных видов.
+ *
+ * Требования задаются в правиле таблицей строк: фильтр слоев объектов и значения параметров,
+ * которые для объектов этих слоев заменяют общие параметры правила.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Перечисление сторон относительно трассы.
+ */
+export enum Side {
+    /**
+     * Левая сторона трассы.
+     */
+    LEFT = "LEFT",
+    /**
+     * Правая сторона трассы.
+     */
+    RIGHT = "RIGHT",
+    /**
+     * Обе стороны трассы.
+     */
+    BOTH = "BOTH",
+}
+
+/**
+ * Параметры правила, которые могут задаваться строкой требований.
+ */
+export interface ObjectRequirementSettings {
+    /**
+     * Требуемая дистанция видимости (в метрах).
+     */
+    viewDistance: number;
+
+    /**
+     * Высота глаз наблюдателя над уровнем трассы (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Сторона трассы, с которой проверяются объекты.
+     */
+    side: Side;
+
+    /**
+     * Минимальная видимая доля объекта (от 0 до 1).
+     */
+    minVisibleShare: number;
+}
+
+/**
+ * Строка таблицы требований к видимости объектов.
+ */
+export interface ObjectRequirement extends Partial<ObjectRequirementSettings> {
+    /**
+     * Наименование строки для сообщений; по умолчанию — фильтр.
+     */
+    name: string;
+
+    /**
+     * Фильтр слоев объектов, к которым применяется строка.
+     */
+    filter: string;
+}
+
+/**
+ * Разбирает таблицу требований к видимости объектов.
+ *
+ * Таблица задается массивом JSON, например
+ * `[{"name": "Предупреждающие знаки", "filter": "...", "viewDistance": 150, "side": "RIGHT"}]`.
+ * Обязателен только фильтр; незаданные значения берутся из общих параметров правила.
+ * Строки проверяются по порядку, к объекту применяется первая подходящая.
+ *
+ * @param spec - Текст таблицы. Пустая строка означает отсутствие строк.
+ * @returns Строки таблицы либо `undefined`, если текст содержит ошибку.
+ */
+export function parseObjectRequirements(spec: string | undefined): ObjectRequirement[] | undefined {
+    if (spec === undefined || spec.trim() === '') {
+        return [];
+    }
+    let rows: unknown;
+    try {
+        rows = JSON.parse(spec);
+    } catch {
+        return undefined;
+    }
+    if (!Array.isArray(rows)) {
+        return undefined;
+    }
+    const requirements: ObjectRequirement[] = [];
+    for (const row of rows) {
+        if (typeof row !== 'object' || row === null || typeof row.filter !== 'string' || row.filter.trim() === '') {
+            return undefined;
+        }
+        const numbers = [row.viewDistance, row.viewPointElevation, row.minVisibleShare];
+        if (numbers.some((value) => value !== undefined && (typeof value !== 'number' || !isFinite(value)))) {
+            return undefined;
+        }
+        if (row.side !== undefined && !Object.values(Side).includes(row.side)) {
+            return undefined;
+        }
+        requirements.push({
+            name: typeof row.name === 'string' && row.name.trim() !== '' ? row.name : row.filter,
+            filter: row.filter,
+            viewDistance: row.viewDistance,
+            viewPointElevation: row.viewPointElevation,
+            side: row.side,
+            minVisibleShare: row.minVisibleShare,
+        });
+    }
+    return requirements;
+}
+
+/**
+ * Применяет строку требований к параметрам правила.
+ *
+ * @param rule - Параметры правила.
+ * @param requirement - Строка требований либо `undefined`, если ни одна строка не подошла.
+ * @returns Параметры правила с заменёнными значениями.
+ */
+export function applyObjectRequirement<T extends ObjectRequirementSettings>(rule: T, requirement: ObjectRequirement | undefined): T {
+    if (requirement === undefined) {
+        return rule;
+    }
+    return {
+        ...rule,
+        viewDistance: requirement.viewDistance ?? rule.viewDistance,
+        viewPointElevation: requirement.viewPointElevation ?? rule.viewPointElevation,
+        side: requirement.side ?? rule.side,
+        minVisibleShare: requirement.minVisibleShare ?? rule.minVisibleShare,
+    };
+}
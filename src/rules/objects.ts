@@ -6,33 +6,22 @@
  */
 
 import { DiagnosticSeverity, DwgType } from 'albatros/enums';
-import { SegmentFrustum } from '../utils/frustum';
-import { modelIntersectsSegment } from '../utils/intersect';
-import { AlignmentWrapper, MoveDirection } from './alignmentWrapper';
-
-/**
- * Перечисление сторон относительно трассы.
- */
-enum Side {
-    /**
-     * Левая сторона трассы.
-     */
-    LEFT = "LEFT",
-    /**
-     * Правая сторона трассы.
-     */
-    RIGHT = "RIGHT",
-    /**
-     * Обе стороны трассы.
-     */
-    BOTH = "BOTH",
-}
+import { ProgressReporter } from '../utils/progress';
+import { RayGroup } from '../utils/raycast';
+import { ScanSample, scanStations } from '../utils/scan';
+import { AlignmentWrapper, directionsOf, directionTitle, MoveDirection } from './alignmentWrapper';
+import { alignmentLanes, Lane, LANE_MAX_OFFSET, parseLanes } from './lanes';
+import { faceSamples, modelBounds, modelCenter, plateFacing } from './models';
+import { applyObjectRequirement, ObjectRequirement, ObjectRequirementSettings, parseObjectRequirements, Side } from './objectRequirements';
+import { alignmentCorridor, filterLayers, inLayers, LayerSet, Obstacle, obstacleClasses, ObstacleClassSettings, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, layerPath, ResultKind, setLastResults, VisibilityResult } from './results';
+import { travelDistance } from './sightTriangle';
 
 /**
  * Правило проверки видимости объектов.
  * Определяет параметры, при которых объект должен быть виден.
  */
-interface ObjectsVisibilityRule {
+interface ObjectsVisibilityRule extends ObstacleClassSettings, ObjectRequirementSettings {
     /**
      * Фильтр для выбора слоёв трасс.
      * Используется для поиска объектов типа `DwgAlignment`.
@@ -45,8 +34,23 @@ interface ObjectsVisibilityRule {
      */
     objectFilter: string;
 
+    /**
+     * Фильтр для выбора слоёв, содержащих препятствия.
+     * Пустой фильтр означает, что препятствием может быть любая 3D-модель, кроме проверяемого объекта.
+     */
+    obstacleFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв поверхностей рельефа и дороги.
+     * Пустой фильтр отключает учёт поверхностей.
+     */
+    surfaceFilter: string;
+
     /**
      * Направление движения вдоль трассы при проверке видимости.
+     * При значении `BOTH` оба направления проверяются за один запуск с общими результатами
+     * поиска препятствий на совпадающих лучах, а односторонние щиты — только для направления,
+     * к водителям которого обращена лицевая сторона.
      */
     direction: MoveDirection;
 
@@ -57,9 +61,22 @@ interface ObjectsVisibilityRule {
 
     /**
      * Смещение точки наблюдения от оси трассы (в метрах).
+     * Используется, если полосы движения не заданы.
      */
     viewPointOffset: number;
 
+    /**
+     * Полосы движения, с которых проверяется видимость.
+     * Строка полос, разделённых `;`: постоянное смещение или таблица `пикет: смещение` через запятую.
+     */
+    lanes: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих оси полос модели коридора.
+     * Пустой фильтр отключает чтение полос из модели.
+     */
+    laneFilter: string;
+
     /**
      * Высота точки наблюдения над уровнем трассы (в метрах).
      */
@@ -70,13 +87,145 @@ interface ObjectsVisibilityRule {
      */
     viewPointStep: number;
 
+    /**
+     * Уточнять ли границы участков: проход с шагом `coarseStep` и деление пополам
+     * вокруг каждой смены видимости до точности `stationTolerance` вместо прохода с шагом `viewPointStep`.
+     */
+    adaptive: boolean;
+
+    /**
+     * Шаг начального прохода при уточнении границ участков (в метрах).
+     */
+    coarseStep: number;
+
+    /**
+     * Точность определения границ участков при уточнении (в метрах).
+     */
+    stationTolerance: number;
+
+    /**
+     * Наибольшее число потоков вычисления, в которых проверяются лучи начального прохода по пикетам.
+     * При значении `1` и менее расчет выполняется в основном потоке.
+     */
+    maxWorkers: number;
+
     /**
      * Максимальная дистанция видимости (в метрах).
      * Если объект дальше — он считается невидимым.
      */
     viewDistance: number;
+
+    /**
+     * Число лучей по каждой стороне сетки, которой покрывается видимая сторона объекта.
+     */
+    targetGrid: number;
+
+    /**
+     * Горизонтальный угол поля зрения водителя (в градусах), симметричный относительно направления движения.
+     * Объекты за пределами поля зрения не проверяются.
+     */
+    fieldOfView: number;
+
+    /**
+     * Наибольший угол между нормалью щита и линией взгляда водителя (в градусах),
+     * при котором знак читается. С большим углом объект считается невидимым с полосы.
+     */
+    maxFacingAngle: number;
+
+    /**
+     * Проверять ли читаемость знаков: участок, с которого знак виден без препятствий
+     * в пределах дистанции читаемости, должен быть не короче пути за время чтения и реакции.
+     */
+    legibility: boolean;
+
+    /**
+     * Расчетная скорость движения при проверке читаемости (в км/ч).
+     */
+    designSpeed: number;
+
+    /**
+     * Высота букв и символов знака (в метрах). При значении `0` определяется по ширине щита.
+     */
+    letterHeight: number;
+
+    /**
+     * Время чтения знака (в секундах).
+     */
+    readingTime: number;
+
+    /**
+     * Время реакции водителя после прочтения знака (в секундах).
+     */
+    reactionTime: number;
+
+    /**
+     * Минимальная видимая доля объекта (от 0 до 1), при которой объект считается видимым.
+     */
+    minVisibleShare: number;
+
+    /**
+     * Таблица требований к видимости объектов разных видов (массив JSON).
+     * Каждая строка задает фильтр слоев объектов и значения `viewDistance`, `viewPointElevation`,
+     * `side`, `minVisibleShare`, заменяющие общие параметры для объектов этих слоев.
+     */
+    requirements: string;
+}
+
+/**
+ * Объект в поле зрения водителя с одной полосы.
+ */
+interface LaneView {
+    /**
+     * Лучи к точкам видимой стороны объекта; `undefined`, если щит развернут и не читается.
+     */
+    group?: RayGroup;
+
+    /**
+     * Угол между нормалью щита и линией взгляда (в градусах).
+     */
+    angle: number;
 }
 
+/**
+ * Результат проверки объекта с одного пикета со всех полос.
+ */
+interface ObjectStationScan {
+    /**
+     * Видимость объекта не обеспечена хотя бы с одной полосы.
+     */
+    blocked: boolean;
+
+    /**
+     * Наименьшая среди полос видимая доля объекта.
+     */
+    share: number;
+
+    /**
+     * Препятствия, закрывающие лучи к объекту.
+     */
+    obstacles: Obstacle[];
+
+    /**
+     * Индексы полос, с которых видимость объекта не обеспечена.
+     */
+    blockedLanes: number[];
+
+    /**
+     * Наибольший угол между нормалью щита и линией взгляда с полос, с которых щит не читается (в градусах).
+     */
+    facingAngle?: number;
+
+    /**
+     * Объект находится в поле зрения водителя хотя бы с одной полосы.
+     */
+    inView: boolean;
+}
+
+/**
+ * Видимая доля объекта на пикете: [положение точки наблюдения, доля от 0 до 1].
+ */
+type ObjectVisibleShare = [number, number];
+
 /**
  * Диагностика видимости объекта.
  * Расширяет стандартный интерфейс `Diagnostic` контекстными данными.
@@ -102,10 +251,15 @@ interface ObjectVisibilityDiagnostic extends Diagnostic {
      */
     rule: ObjectsVisibilityRule;
 
+    /**
+     * Полоса, с которой объект закрыт препятствиями на большей части участка.
+     */
+    lane: Lane;
+
     /**
      * Набор препятствующих объектов, мешающих видимости.
      */
-    obstacles: WeakSet<DwgModel3d>;
+    obstacles: Set<Obstacle>;
 
     /**
      * Начало участка, на котором видимость нарушена (в метрах от начала трассы).
@@ -116,50 +270,69 @@ interface ObjectVisibilityDiagnostic extends Diagnostic {
      * Конец участка, на котором видимость нарушена (в метрах от начала трассы).
      */
     rangeEnd: number;
+
+    /**
+     * Видимая доля объекта на пикетах участка (наименьшая среди полос).
+     */
+    visibleShares: ObjectVisibleShare[];
 }
 
 /**
- * Вычисляет центр масс 3D-модели на основе её мешей и вершин.
- * Результат записывается в переданный вектор `target`.
+ * Дистанция читаемости на метр высоты букв (в метрах).
+ */
+const LEGIBILITY_INDEX = 360.0;
+
+/**
+ * Доля ширины щита, принимаемая за высоту букв и символов, если она не задана.
+ */
+const LETTER_HEIGHT_SHARE = 0.15;
+
+/**
+ * Находит наибольший непрерывный участок, с которого объект в поле зрения и виден.
  *
- * @param target - Вектор, в который будет записан центр модели.
- * @param model - 3D-модель, для которой вычисляется центр.
- * @returns `true`, если центр был успешно вычислен; `false`, если модель пуста.
+ * @param scans - Результаты проверки по пикетам.
+ * @param from - Начало рассматриваемого участка.
+ * @param to - Конец рассматриваемого участка.
+ * @returns Начало и конец найденного участка; при их совпадении объект с участка не виден.
  */
-function modelCenter(target: vec3, model: DwgModel3d): boolean {
-    let success = false;
-
-    let x = 0;
-    let y = 0;
-    let z = 0;
-    let n = 0;
-
-    const meshes = model.meshes;
-    for (const id in meshes) {
-        const mesh = meshes[id];
-        const geometry = mesh.geometry;
-        if (geometry === undefined) {
+function readableStretch(scans: ScanSample<ObjectStationScan>[], from: number, to: number): [number, number] {
+    let best: [number, number] = [from, from];
+    let start = -1;
+    for (const { station, value } of scans) {
+        if (station < from || station > to) {
             continue;
         }
-        success = true;
-
-        const { vertices, indices } = geometry;
-        for (let i = 0; i < indices.length; ++i) {
-            const i3 = indices[i] * 3;
-            x += vertices[i3];
-            y += vertices[i3 + 1];
-            z += vertices[i3 + 2];
-            ++n;
+        if (!value.inView || value.blocked) {
+            start = -1;
+            continue;
+        }
+        if (start < 0) {
+            start = station;
+        }
+        if (station - start > best[1] - best[0]) {
+            best = [start, station];
         }
     }
-    if (n === 0) {
-        return false;
-    }
-    Math3d.vec3.make(target, x / n, y / n, z / n);
-    Math3d.mat4.mulv3(target, model.matrix, target);
-    return success;
+    return best;
+}
+
+/**
+ * Дополняет сообщение наименованием примененной строки требований.
+ *
+ * @param ctx - Контекст приложения.
+ * @param requirement - Строка требований либо `undefined`, если применены общие параметры правила.
+ * @param message - Текст сообщения.
+ * @returns Текст сообщения с указанием требования.
+ */
+function requirementMessage(ctx: Context, requirement: ObjectRequirement | undefined, message: string): string {
+    return requirement !== undefined ? `${message} (${ctx.tr('требование: {0}', requirement.name)})` : message;
 }
 
+/**
+ * Число пикетов, передаваемых одному потоку вычисления за раз.
+ */
+const WORKER_BATCH = 64;
+
 /**
  * Коэффициент замедления анимации при активации диагностики.
  * Используется для визуализации проблемных участков.
@@ -178,7 +351,7 @@ function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
     slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
 
     const visibilityDiagnostic = diagnostic as ObjectVisibilityDiagnostic;
-    const { ctx, alignment, object, rule, rangeStart, rangeEnd, obstacles } = visibilityDiagnostic;
+    const { ctx, alignment, object, rule, lane, rangeStart, rangeEnd, obstacles } = visibilityDiagnostic;
 
     const cadview = ctx.cadview;
     if (!cadview) return;
@@ -205,7 +378,7 @@ function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
         t = Math.min(t, 1.0);
         const vps = t * distance + rangeStart;
         position[0] = vps;
-        position[1] = rule.viewPointOffset;
+        position[1] = lane.offsetAt(vps) ?? rule.viewPointOffset;
         alignment.toWCS(position as unknown as vec2, position as unknown as vec2);
         position[2] = alignment.elevationAt(vps) + rule.viewPointElevation;
         Math3d.vec3.sub(direction, objectCenter, position);
@@ -237,12 +410,34 @@ export default {
                 return {
                     alignmentFilter: '$type_1 = SmdxElement',
                     objectFilter: '$type_3 = SmdxRoadSignItem',
+                    obstacleFilter: '',
+                    surfaceFilter: '',
                     direction: MoveDirection.FORWARD,
                     side: Side.BOTH,
                     viewPointOffset: 0,
+                    lanes: '',
+                    laneFilter: '',
                     viewPointElevation: 1.2,
                     viewPointStep: 1,
+                    adaptive: false,
+                    coarseStep: 10,
+                    stationTolerance: 0.1,
+                    maxWorkers: 4,
                     viewDistance: 300,
+                    targetGrid: 3,
+                    minVisibleShare: 0.5,
+                    requirements: '',
+                    fieldOfView: 120,
+                    maxFacingAngle: 45,
+                    legibility: false,
+                    designSpeed: 60,
+                    letterHeight: 0,
+                    readingTime: 2,
+                    reactionTime: 1,
+                    transparentFilter: '',
+                    transparency: 0.5,
+                    lowObstacleFilter: '',
+                    lowObstacleHeight: 0.5,
                 };
             },
 
@@ -252,9 +447,9 @@ export default {
              * @param app - Приложение, в котором выполняется проверка.
              * @param rule - Правило проверки.
              * @param diagnostics - Коллекция диагностики для добавления результатов.
-             * @param _progress - Прогресс выполнения (не используется).
+             * @param progress - Объект для отслеживания прогресса выполнения.
              */
-            async execute(app: Application, rule: ObjectsVisibilityRule, diagnostics: DiagnosticCollection, _progress: WorkerProgress) {
+            async execute(app: Application, rule: ObjectsVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
                 const drawing = app.model as Drawing;
                 if (drawing === undefined) {
                     return;
@@ -270,9 +465,10 @@ export default {
 
                 const modelName = drawing.layers.layer0?.modelName ?? '';
                 const messages: Record<string, (Diagnostic | ObjectVisibilityDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
 
                 // Получение трасс
-                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).map(align => new AlignmentWrapper(align as DwgAlignment, rule.direction));
+                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).flatMap(align => directionsOf(rule.direction).map(direction => new AlignmentWrapper(align as DwgAlignment, direction)));
                 if (alignments.length === 0) {
                     messages[modelName] = [{
                         message: ctx.tr('Не найдены подходящие слои трасс'),
@@ -292,140 +488,365 @@ export default {
                     }];
                 }
 
-                const inverseMatrices = new WeakMap<DwgModel3d, mat4>;
+                // Полосы движения наблюдателя
+                const laneTables = parseLanes(rule.lanes);
+                if (laneTables === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы полосы движения'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Полосы задаются через «;» постоянным смещением или таблицей «пикет: смещение» через запятую'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const laneFilter = rule.laneFilter?.trim() ? rule.laneFilter : undefined;
+                const laneAxes = laneFilter !== undefined ? drawing.filterEntities(laneFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[] : [];
+
+                // Требования к видимости объектов разных видов
+                const requirements = parseObjectRequirements(rule.requirements);
+                if (requirements === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы требования к видимости объектов'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Требования задаются массивом JSON, в каждой строке которого обязателен фильтр слоев «filter»'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const requirementLayers = requirements.map((requirement): [ObjectRequirement, LayerSet] => [requirement, drawing.filterLayers(requirement.filter, false)]);
+                const maxViewDistance = Math.max(rule.viewDistance, ...requirements.map((requirement) => requirement.viewDistance ?? 0.0));
+                const alignmentLaneSets = new Map<AlignmentWrapper, Lane[]>(alignments.map((alignment) => [alignment, alignmentLanes(ctx, alignment, laneTables, laneAxes, rule.viewPointOffset)]));
+
+                // Пространственный индекс препятствий в коридоре, до которого достают лучи к объектам
+                progress.details = ctx.tr('Построение пространственного индекса препятствий');
+                await new Promise<void>((resolve) => {
+                    setTimeout(resolve, 0);
+                });
+                const obstacleFinder = new ObstacleFinder(drawingLayer, filterLayers(drawing, rule.obstacleFilter), filterLayers(drawing, rule.surfaceFilter), obstacleClasses(drawing, rule, alignments));
+                obstacleFinder.buildIndex(alignmentCorridor(alignments, maxViewDistance + LANE_MAX_OFFSET));
+                const workers = obstacleFinder.startWorkers(rule.maxWorkers);
+                if (rule.direction === MoveDirection.BOTH) {
+                    obstacleFinder.shareQueries();
+                }
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
 
                 const objectCenter: vec3 = [0.0, 0.0, 0.0];
                 const stationOffset: vec2 = [0.0, 0.0];
-                const viewPoint: vec3 = [0.0, 0.0, 0.0];
                 const viewDirection: vec2 = [0.0, 0.0];
                 const direction: vec3 = [0.0, 0.0, 0.0];
                 const tg: vec3 = [0.0, 0.0, 0.0];
 
-                // Основной цикл: перебор объектов и трасс
-                for (const object of objects) {
-                    if (!modelCenter(objectCenter, object)) {
-                        continue;
-                    }
-                    for (const alignment of alignments) {
-                        alignment.fromWCS(stationOffset, objectCenter as unknown as vec2);
-                        const objectOffset = stationOffset[1];
-                        const objectStation = stationOffset[0];
-                        if ((rule.side === Side.LEFT && objectOffset > 0) || (rule.side === Side.RIGHT && objectOffset < 0)) {
+                try {
+                    // Основной цикл: перебор объектов и трасс
+                    for (let objectIndex = 0; objectIndex < objects.length; ++objectIndex) {
+                        const object = objects[objectIndex];
+                        // Лучи к объекту с совпадающих точек наблюдения обоих направлений проверяются один раз
+                        obstacleFinder.clearShared();
+                        if (!modelCenter(objectCenter, object)) {
                             continue;
                         }
-
-                        const modelName = alignment.modelName;
-                        let collection = messages[modelName];
-                        if (collection === undefined) {
-                            messages[modelName] = collection = [];
+                        const bounds = modelBounds(object);
+                        if (bounds === undefined) {
+                            continue;
                         }
-                        let rangeStart = -1;
-                        let rangeEnd = -1;
-                        let obstaclesAtRange = new WeakSet<DwgModel3d>();
-                        const length = alignment.length;
-
-                        // Проверка вдоль трассы с шагом
-                        for (let station = 0; station <= length; station += rule.viewPointStep) {
-                            alignment.tangentAt(tg, station);
-                            Math3d.vec2.normalize(tg as unknown as vec2);
-                            alignment.toWCS(viewPoint as unknown as vec2, [station, rule.viewPointOffset]) as unknown as vec3;
-                            viewPoint[2] = alignment.elevationAt(station) + rule.viewPointElevation;
-
-                            Math3d.vec3.sub(direction, objectCenter, viewPoint);
-                            const distance = Math3d.vec3.len(direction);
-                            let outOfView = distance > rule.viewDistance;
-
-                            // Проверка угла обзора
-                            if (!outOfView) {
-                                Math3d.vec2.normalize(viewDirection, direction as unknown as vec2);
-                                const cos = Math3d.vec2.dot(tg as unknown as vec2, viewDirection);
-                                outOfView = cos < 0;
+                        const facing = plateFacing(object);
+                        // Требования первой подходящей строки таблицы либо общие параметры правила
+                        const requirement = requirementLayers.find(([, layers]) => inLayers(layers, object))?.[0];
+                        const objectRule = applyObjectRequirement(rule, requirement);
+                        for (let alignmentIndex = 0; alignmentIndex < alignments.length; ++alignmentIndex) {
+                            const alignment = alignments[alignmentIndex];
+                            alignment.fromWCS(stationOffset, objectCenter as unknown as vec2);
+                            const objectOffset = stationOffset[1];
+                            const objectStation = stationOffset[0];
+                            if ((objectRule.side === Side.LEFT && objectOffset > 0) || (objectRule.side === Side.RIGHT && objectOffset < 0)) {
+                                continue;
                             }
-
-                            // Проверка направления (по ходу движения)
-                            if (!outOfView) {
-                                outOfView = objectStation < station;
+                            // При проверке в обоих направлениях односторонний щит проверяется только
+                            // для направления, к водителям которого обращена его лицевая сторона
+                            if (rule.direction === MoveDirection.BOTH && facing !== undefined && !facing.twoSided) {
+                                alignment.tangentAt(tg, Math.min(Math.max(objectStation, 0.0), alignment.length));
+                                if (Math3d.vec2.dot(facing.normal, tg as unknown as vec2) > 0.0) {
+                                    continue;
+                                }
                             }
 
-                            let obstacles: Generator<DwgModel3d>;
-                            let obstacle: IteratorResult<DwgModel3d>;
-                            if (!outOfView) {
-                                Math3d.vec3.mul(direction, direction, 1.0 / distance);
-                                const frustum = new SegmentFrustum(viewPoint, objectCenter);
+                            const modelName = alignment.modelName;
+                            let collection = messages[modelName];
+                            if (collection === undefined) {
+                                messages[modelName] = collection = [];
+                            }
+                            const lanes = alignmentLaneSets.get(alignment)!;
+                            let rangeStart = -1;
+                            let rangeEnd = -1;
+                            let obstaclesAtRange = new Set<Obstacle>();
+                            let surfaceAtRange = false;
+                            let blockedByLane = lanes.map(() => 0);
+                            let visibleShares = new Array<ObjectVisibleShare>();
+                            let facingAngle = 0.0;
+                            const length = alignment.length;
+
+                            const pushRange = (end: number) => {
+                                // Полоса, с которой объект закрыт на наибольшем числе пикетов участка
+                                const worstLane = blockedByLane.indexOf(Math.max(...blockedByLane));
+                                const lane = lanes[worstLane];
+                                const reason = facingAngle > 0.0
+                                    ? ctx.tr('Щит развернут относительно линии взгляда водителя на {0}°', facingAngle.toFixed(0))
+                                    : surfaceAtRange ? ctx.tr('Поверхность рельефа или дороги мешает видимости') : ctx.tr('Препятствия мешают видимости');
+                                const message = requirementMessage(ctx, requirement, lanes.length > 1
+                                    ? ctx.tr('На участке от {0} до {1} видимость объекта не обеспечена, наихудшая полоса: {2}', alignment.toPK(rangeStart), alignment.toPK(end), lane.name)
+                                    : ctx.tr('На участке от {0} до {1} видимость объекта не обеспечена', alignment.toPK(rangeStart), alignment.toPK(end)));
+                                results.push({
+                                    kind: ResultKind.OBJECT,
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    from: rangeStart,
+                                    to: end,
+                                    fromPK: alignment.toPK(rangeStart),
+                                    toPK: alignment.toPK(end),
+                                    lane: lane.name,
+                                    message,
+                                    obstacles: [...obstaclesAtRange].map(entityRef),
+                                    target: entityRef(object),
+                                    axis: axisPoints(alignment, rangeStart, end),
+                                });
+                                collection!.push({
+                                    message,
+                                    severity: DiagnosticSeverity.Error,
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}, ${layerPath(object)}`,
+                                    tooltip: `${reason}. ${ctx.tr('Наименьшая видимая доля объекта {0}%', (Math.min(...visibleShares.map(([, share]) => share)) * 100).toFixed(0))}`,
+                                    activation: activateDiagnostic,
+
+                                    ctx,
+                                    alignment,
+                                    object: new WeakRef(object),
+                                    rule: objectRule,
+                                    lane,
+                                    rangeStart,
+                                    rangeEnd,
+                                    obstacles: obstaclesAtRange,
+                                    visibleShares,
+                                });
+                            };
+
+                            // Общий ход выполнения: доля пройденных пар объект–трасса
+                            const reportProgress = (station: number) => reporter.report(
+                                (objectIndex * alignments.length + alignmentIndex + (length > 0 ? station / length : 1.0)) / (objects.length * alignments.length),
+                                () => `${ctx.tr('Объект {0} из {1}: {2}, трасса {3}, пикет {4} ({5})', `${objectIndex + 1}`, `${objects.length}`, layerPath(object), alignment.source, alignment.toPK(station), directionTitle(ctx, alignment.direction))}; ${obstacleFinder.statistics(ctx)}`,
+                            );
+
+                            // Объект с каждой полосы движения; `undefined` — объект вне поля зрения
+                            const laneViews = (station: number): (LaneView | undefined)[] => {
+                                alignment.tangentAt(tg, station);
+                                Math3d.vec2.normalize(tg as unknown as vec2);
+                                return lanes.map((lane) => {
+                                    const viewPointOffset = lane.offsetAt(station);
+                                    if (viewPointOffset === undefined) {
+                                        return undefined;
+                                    }
+                                    const viewPoint: vec3 = [0.0, 0.0, 0.0];
+                                    alignment.toWCS(viewPoint as unknown as vec2, [station, viewPointOffset]);
+                                    viewPoint[2] = alignment.elevationAt(station) + objectRule.viewPointElevation;
+
+                                    Math3d.vec3.sub(direction, objectCenter, viewPoint);
+                                    const distance = Math3d.vec3.len(direction);
+                                    let outOfView = distance > objectRule.viewDistance;
+
+                                    // Проверка поля зрения водителя
+                                    if (!outOfView) {
+                                        Math3d.vec2.normalize(viewDirection, direction as unknown as vec2);
+                                        const cos = Math3d.vec2.dot(tg as unknown as vec2, viewDirection);
+                                        outOfView = cos < Math.cos(objectRule.fieldOfView * 0.5 * Math.PI / 180);
+                                    }
 
-                                obstacles = drawingLayer.selectableObjects(frustum, (obj) => {
-                                    if (obj === object || obj.type !== DwgType.model3d) {
-                                        return false;
+                                    // Проверка направления (по ходу движения)
+                                    if (!outOfView) {
+                                        outOfView = objectStation < station;
                                     }
 
-                                    const model = obj as DwgModel3d;
-                                    let inverse = inverseMatrices.get(model);
-                                    if (inverse === undefined) {
-                                        inverse = Math3d.mat4.inverse(Math3d.mat4.alloc(), model.matrix);
-                                        inverseMatrices.set(model, inverse);
+                                    if (outOfView) {
+                                        return undefined;
                                     }
 
-                                    return modelIntersectsSegment(model, inverse, viewPoint, objectCenter);
-                                }) as Generator<DwgModel3d>;
+                                    // Угол между нормалью щита и направлением от объекта к водителю
+                                    let angle = 0.0;
+                                    if (facing !== undefined) {
+                                        const cos = -Math3d.vec2.dot(facing.normal, viewDirection);
+                                        angle = Math.acos(Math.min(Math.max(facing.twoSided ? Math.abs(cos) : cos, -1.0), 1.0)) * 180 / Math.PI;
+                                    }
+                                    return {
+                                        group: angle <= objectRule.maxFacingAngle ? { origin: viewPoint, targets: faceSamples(bounds, viewPoint, objectRule.targetGrid), first: false } : undefined,
+                                        angle,
+                                    };
+                                });
+                            };
+
+                            // Видимая доля объекта с каждой полосы по препятствиям на лучах
+                            const collect = (views: (LaneView | undefined)[], found: (Obstacle[][] | undefined)[]): ObjectStationScan => {
+                                const scan: ObjectStationScan = { blocked: false, share: 1.0, obstacles: [], blockedLanes: [], inView: false };
+                                for (let laneIndex = 0; laneIndex < lanes.length; ++laneIndex) {
+                                    const view = views[laneIndex];
+                                    if (view === undefined) {
+                                        continue;
+                                    }
+                                    scan.inView = true;
+                                    // Развернутый щит не читается независимо от препятствий
+                                    const group = view.group;
+                                    const laneFound = found[laneIndex];
+                                    if (group === undefined || laneFound === undefined) {
+                                        scan.share = 0.0;
+                                        scan.blocked = true;
+                                        scan.blockedLanes.push(laneIndex);
+                                        scan.facingAngle = Math.max(scan.facingAngle ?? 0.0, view.angle);
+                                        continue;
+                                    }
+                                    // Полупрозрачные препятствия закрывают луч частично
+                                    let visibleRays = 0;
+                                    for (const obstacles of laneFound) {
+                                        scan.obstacles.push(...obstacles);
+                                        visibleRays += obstacleFinder.visibility(obstacles);
+                                    }
+                                    const share = visibleRays / group.targets.length;
+                                    scan.share = Math.min(scan.share, share);
+                                    if (share < objectRule.minVisibleShare) {
+                                        scan.blocked = true;
+                                        scan.blockedLanes.push(laneIndex);
+                                    }
+                                }
+                                return scan;
+                            };
+
+                            // Проверка объекта с пикета со всех полос движения
+                            const evaluate = async (station: number): Promise<ObjectStationScan> => {
+                                await reportProgress(station);
+                                const views = laneViews(station);
+                                return collect(views, views.map((view) => view?.group?.targets.map((sample) => obstacleFinder.find(view.group!.origin, sample, object))));
+                            };
+
+                            // Начальный проход в потоках вычисления: пикеты передаются пакетами
+                            const evaluateMany = async (stations: number[]): Promise<ObjectStationScan[]> => {
+                                const scans: ObjectStationScan[] = [];
+                                const batch = WORKER_BATCH * workers;
+                                for (let start = 0; start < stations.length; start += batch) {
+                                    await reportProgress(stations[start]);
+                                    const views = stations.slice(start, start + batch).map(laneViews);
+                                    const groups = views.flat().map((view) => view?.group).filter((group): group is RayGroup => group !== undefined);
+                                    const found = await obstacleFinder.castRays(groups, object);
+                                    let next = 0;
+                                    for (const stationViews of views) {
+                                        scans.push(collect(stationViews, stationViews.map((view) => view?.group !== undefined ? found[next++] : undefined)));
+                                    }
+                                }
+                                return scans;
+                            };
+
+                            // Проход вдоль трассы с шагом либо с уточнением границ участков
+                            const scans = await scanStations(
+                                0,
+                                length,
+                                objectRule.adaptive ? objectRule.coarseStep : objectRule.viewPointStep,
+                                objectRule.adaptive ? objectRule.stationTolerance : Infinity,
+                                evaluate,
+                                (a, b) => a.blocked === b.blocked,
+                                obstacleFinder.parallel ? evaluateMany : undefined,
+                            );
+                            for (const { station, value: scan } of scans) {
+                                // Фиксация нарушений видимости
+                                if (!scan.blocked) {
+                                    if (rangeStart >= 0) {
+                                        pushRange(station);
+                                        rangeStart = -1;
+                                        rangeEnd = -1;
+                                        obstaclesAtRange = new Set();
+                                        surfaceAtRange = false;
+                                        blockedByLane = lanes.map(() => 0);
+                                        visibleShares = new Array<ObjectVisibleShare>();
+                                        facingAngle = 0.0;
+                                    }
+                                } else {
+                                    if (rangeStart < 0) {
+                                        rangeStart = station;
+                                    }
+                                    rangeEnd = station;
+                                    visibleShares.push([station, scan.share]);
+                                    facingAngle = Math.max(facingAngle, scan.facingAngle ?? 0.0);
+                                    for (const laneIndex of scan.blockedLanes) {
+                                        ++blockedByLane[laneIndex];
+                                    }
+                                    for (const obstacle of scan.obstacles) {
+                                        obstaclesAtRange.add(obstacle);
+                                        surfaceAtRange ||= obstacleFinder.isSurface(obstacle);
+                                    }
+                                }
+                            }
 
-                                obstacle = obstacles.next();
+                            // Завершение последнего участка
+                            if (rangeStart >= 0) {
+                                pushRange(alignment.length);
                             }
 
-                            // Фиксация нарушений видимости
-                            if (outOfView || obstacle!.done) {
-                                if (rangeStart >= 0) {
+                            // Читаемость знака: участок видимости в пределах дистанции читаемости перед знаком
+                            if (objectRule.legibility && objectStation > 0 && objectStation <= length) {
+                                const plateWidth = Math.max(bounds.max[0] - bounds.min[0], bounds.max[1] - bounds.min[1]);
+                                const letterHeight = objectRule.letterHeight > 0 ? objectRule.letterHeight : plateWidth * LETTER_HEIGHT_SHARE;
+                                const legibilityDistance = LEGIBILITY_INDEX * letterHeight;
+                                const requiredDistance = travelDistance(objectRule.designSpeed, objectRule.readingTime + objectRule.reactionTime);
+                                const windowStart = Math.max(objectStation - legibilityDistance, 0.0);
+                                const [readableStart, readableEnd] = readableStretch(scans, windowStart, objectStation);
+                                const readableDistance = readableEnd - readableStart;
+                                if (readableDistance < requiredDistance) {
+                                    const obstacles = new Set<Obstacle>();
+                                    const shares = new Array<ObjectVisibleShare>();
+                                    for (const { station, value: scan } of scans) {
+                                        if (station >= windowStart && station <= objectStation) {
+                                            scan.obstacles.forEach((obstacle) => obstacles.add(obstacle));
+                                            shares.push([station, scan.share]);
+                                        }
+                                    }
+                                    const message = requirementMessage(ctx, requirement, ctx.tr('Знак читается на участке {0} м перед ним, требуется {1} м', readableDistance.toFixed(0), requiredDistance.toFixed(0)));
+                                    results.push({
+                                        kind: ResultKind.LEGIBILITY,
+                                        alignment: alignment.source,
+                                        direction: alignment.direction,
+                                        from: windowStart,
+                                        to: objectStation,
+                                        fromPK: alignment.toPK(windowStart),
+                                        toPK: alignment.toPK(objectStation),
+                                        message,
+                                        obstacles: [...obstacles].map(entityRef),
+                                        target: entityRef(object),
+                                        axis: axisPoints(alignment, windowStart, objectStation),
+                                    });
                                     collection.push({
-                                        message: ctx.tr('На участке от {0} до {1} видимость объекта не обеспечена', alignment.toPK(rangeStart), alignment.toPK(station)),
+                                        message,
                                         severity: DiagnosticSeverity.Error,
-                                        source: `${alignment.source}, ${object.layer?.layer?.name}/${object.layer?.name}`,
-                                        tooltip: ctx.tr('Препятствия мешают видимости'),
+                                        source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}, ${layerPath(object)}`,
+                                        tooltip: ctx.tr('Высота букв {0} м, дистанция читаемости {1} м, скорость {2} км/ч', letterHeight.toFixed(2), legibilityDistance.toFixed(0), objectRule.designSpeed.toFixed(0)),
                                         activation: activateDiagnostic,
 
                                         ctx,
                                         alignment,
                                         object: new WeakRef(object),
-                                        rule,
-                                        rangeStart,
-                                        rangeEnd,
-                                        obstacles: obstaclesAtRange,
+                                        rule: objectRule,
+                                        lane: lanes[0],
+                                        rangeStart: windowStart,
+                                        rangeEnd: objectStation,
+                                        obstacles,
+                                        visibleShares: shares,
                                     });
-                                    rangeStart = -1;
-                                    rangeEnd = -1;
-                                    obstaclesAtRange = new WeakSet();
-                                }
-                            } else {
-                                if (rangeStart < 0) {
-                                    rangeStart = station;
-                                }
-                                rangeEnd = station;
-                                obstaclesAtRange.add(obstacle!.value);
-                                for (const obstacle of obstacles!) {
-                                    obstaclesAtRange.add(obstacle);
                                 }
                             }
                         }
-
-                        // Завершение последнего участка
-                        if (rangeStart >= 0) {
-                            collection.push({
-                                message: ctx.tr('На участке от {0} до {1} видимость объекта не обеспечена', alignment.toPK(rangeStart), alignment.toPK(alignment.length)),
-                                severity: DiagnosticSeverity.Error,
-                                source: `${alignment.source}, ${object.layer?.layer?.name}/${object.layer?.name}`,
-                                tooltip: ctx.tr('Препятствия мешают видимости'),
-                                activation: activateDiagnostic,
-
-                                ctx,
-                                alignment,
-                                object: new WeakRef(object),
-                                rule,
-                                rangeStart,
-                                rangeEnd,
-                                obstacles: obstaclesAtRange,
-                            });
-                        }
                     }
+                } finally {
+                    obstacleFinder.dispose();
                 }
 
+                setLastResults('rule:visibility:objects', results);
+
                 // Сохранение результатов диагностики
                 for (const uri in messages) {
                     diagnostics.set(uri, messages[uri]);
@@ -0,0 +1,718 @@
+/**
+ * Модуль поиска препятствий на луче видимости.
+ *
+ * Объединяет проверку 3D-моделей и поверхностей (ЦМР, поверхностей коридора дороги),
+ * чтобы оба правила видимости учитывали препятствия одинаково. Поверхности представлены
+ * 3D-моделями на слоях поверхностей и проверяются с обеих сторон треугольников.
+ *
+ * @packageDocumentation
+ */
+
+import { DwgType } from 'albatros/enums';
+import { TriangleBVH, walkTriangles } from '../utils/bvh';
+import { SegmentFrustum, UnboundedFrustum } from '../utils/frustum';
+import { MeshGeometry, modelIntersectsSegment, segmentCrossesTriangle } from '../utils/intersect';
+import { RaycastPool, RaycastScene, RayGroup, RayGroupHits } from '../utils/raycast';
+import { AlignmentWrapper } from './alignmentWrapper';
+import { modelBounds } from './models';
+
+/**
+ * Длина участка трассы, по которому строится одна область коридора (в метрах).
+ */
+const CORRIDOR_CHUNK = 200.0;
+
+/**
+ * Шаг точек трассы при построении областей коридора (в метрах).
+ */
+const CORRIDOR_SAMPLE_STEP = 10.0;
+
+/**
+ * Доля света, ниже которой луч считается закрытым полупрозрачными препятствиями.
+ */
+const MIN_TRANSMITTANCE = 0.5;
+
+/**
+ * Слой чертежа в окне, по которому выполняется выборка объектов.
+ */
+export type DrawingLayer = NonNullable<NonNullable<Context['cadview']>['layer']['drawing']>;
+
+/**
+ * Набор слоёв, полученный фильтрацией слоёв чертежа.
+ */
+export type LayerSet = ReturnType<Drawing['filterLayers']>;
+
+/**
+ * Объект, способный ограничить видимость: 3D-модель препятствия или поверхности.
+ */
+export type Obstacle = DwgModel3d;
+
+/**
+ * Формирует ключ отрезка для кэша результатов поиска.
+ *
+ * @param a - Точка наблюдения.
+ * @param b - Наблюдаемая точка.
+ * @returns Координаты концов отрезка с точностью до миллиметра.
+ */
+function segmentKey(a: vec3, b: vec3): string {
+    return `${a[0].toFixed(3)};${a[1].toFixed(3)};${a[2].toFixed(3)};${b[0].toFixed(3)};${b[1].toFixed(3)};${b[2].toFixed(3)}`;
+}
+
+/**
+ * Выбирает слои по фильтру. Пустой фильтр означает отсутствие слоёв.
+ *
+ * @param drawing - Чертёж, в котором выполняется поиск.
+ * @param filter - Фильтр слоёв.
+ * @returns Набор слоёв либо `undefined`, если фильтр не задан.
+ */
+export function filterLayers(drawing: Drawing, filter: string | undefined): LayerSet | undefined {
+    if (filter === undefined || filter.trim() === '') {
+        return undefined;
+    }
+    return drawing.filterLayers(filter, false);
+}
+
+/**
+ * Проверяет, расположен ли объект на одном из слоёв набора.
+ *
+ * @param layers - Набор слоёв либо `undefined`, если набор не задан.
+ * @param obj - Объект чертежа.
+ * @returns `true`, если набор задан и содержит слой объекта.
+ */
+export function inLayers(layers: LayerSet | undefined, obj: DwgEntity): boolean {
+    return layers !== undefined && obj.layer !== undefined && layers.has(obj.layer);
+}
+
+/**
+ * Параметры правила, задающие поведение препятствий по слоям.
+ * Слои отбираются из числа слоев препятствий; остальные препятствия непрозрачны.
+ */
+export interface ObstacleClassSettings {
+    /**
+     * Фильтр слоев полупрозрачных препятствий (ограждения, редкие деревья).
+     * Пустой фильтр означает отсутствие таких слоев.
+     */
+    transparentFilter: string;
+
+    /**
+     * Доля света, проходящего через полупрозрачное препятствие (от 0 до 1).
+     * Луч, через препятствия которого проходит меньше половины света, считается закрытым.
+     */
+    transparency: number;
+
+    /**
+     * Фильтр слоев низких препятствий (бордюры, низкие ограждения).
+     * Пустой фильтр означает отсутствие таких слоев.
+     */
+    lowObstacleFilter: string;
+
+    /**
+     * Высота верха над дорогой, ниже которой препятствия на слоях низких препятствий
+     * не учитываются (в метрах).
+     */
+    lowObstacleHeight: number;
+}
+
+/**
+ * Поведение препятствий по слоям.
+ */
+export interface ObstacleClasses {
+    /**
+     * Слои полупрозрачных препятствий.
+     */
+    transparentLayers?: LayerSet;
+
+    /**
+     * Доля света, проходящего через полупрозрачное препятствие.
+     */
+    transparency: number;
+
+    /**
+     * Слои низких препятствий.
+     */
+    lowLayers?: LayerSet;
+
+    /**
+     * Высота верха над дорогой, ниже которой низкие препятствия не учитываются (в метрах).
+     */
+    lowHeight: number;
+
+    /**
+     * Трассы, по продольному профилю которых определяется уровень дороги под низкими препятствиями.
+     */
+    roads?: AlignmentWrapper[];
+}
+
+/**
+ * Выбирает слои препятствий по классам, заданным в правиле.
+ *
+ * @param drawing - Чертёж, в котором выполняется поиск.
+ * @param settings - Параметры правила.
+ * @param roads - Трассы, относительно которых измеряется высота низких препятствий.
+ * @returns Поведение препятствий по слоям.
+ */
+export function obstacleClasses(drawing: Drawing, settings: ObstacleClassSettings, roads?: AlignmentWrapper[]): ObstacleClasses {
+    return {
+        transparentLayers: filterLayers(drawing, settings.transparentFilter),
+        transparency: Math.min(Math.max(settings.transparency ?? 0.0, 0.0), 1.0),
+        lowLayers: filterLayers(drawing, settings.lowObstacleFilter),
+        lowHeight: settings.lowObstacleHeight ?? 0.0,
+        roads,
+    };
+}
+
+const _stationOffset: vec2 = [0.0, 0.0];
+
+/**
+ * Определяет уровень дороги в точке по профилю ближайшей трассы.
+ *
+ * @param roads - Трассы.
+ * @param point - Точка в плане.
+ * @returns Отметка профиля ближайшей трассы либо `undefined`, если точка не проецируется ни на одну трассу.
+ */
+function roadElevationAt(roads: AlignmentWrapper[], point: vec2): number | undefined {
+    let elevation: number | undefined;
+    let nearest = Infinity;
+    for (const road of roads) {
+        road.fromWCS(_stationOffset, point);
+        const [station, offset] = _stationOffset;
+        if (station >= 0.0 && station <= road.length && Math.abs(offset) < nearest) {
+            nearest = Math.abs(offset);
+            elevation = road.elevationAt(station);
+        }
+    }
+    return elevation;
+}
+
+/**
+ * Область коридора в плане: [xmin, ymin, xmax, ymax].
+ */
+export type CorridorBox = [number, number, number, number];
+
+/**
+ * Строит коридор вокруг трасс: габариты участков трасс, расширенные на заданную величину.
+ *
+ * @param alignments - Трассы.
+ * @param margin - Расширение габаритов участков в плане (в метрах).
+ * @returns Области коридора.
+ */
+export function alignmentCorridor(alignments: AlignmentWrapper[], margin: number): CorridorBox[] {
+    const boxes: CorridorBox[] = [];
+    const point: vec2 = [0.0, 0.0];
+    for (const alignment of alignments) {
+        const length = alignment.length;
+        for (let start = 0; start < length || start === 0; start += CORRIDOR_CHUNK) {
+            const box: CorridorBox = [Infinity, Infinity, -Infinity, -Infinity];
+            const end = Math.min(start + CORRIDOR_CHUNK, length);
+            for (let station = start; station <= end + CORRIDOR_SAMPLE_STEP * 0.5; station += CORRIDOR_SAMPLE_STEP) {
+                alignment.toWCS(point, [Math.min(station, end), 0.0]);
+                box[0] = Math.min(box[0], point[0] - margin);
+                box[1] = Math.min(box[1], point[1] - margin);
+                box[2] = Math.max(box[2], point[0] + margin);
+                box[3] = Math.max(box[3], point[1] + margin);
+            }
+            boxes.push(box);
+        }
+    }
+    return boxes;
+}
+
+/**
+ * Статистика поиска препятствий за выполнение правила.
+ */
+export interface ObstacleFinderStats {
+    /**
+     * Число треугольников в пространственном индексе.
+     */
+    triangles: number;
+
+    /**
+     * Время построения пространственного индекса (в миллисекундах).
+     */
+    buildTime: number;
+
+    /**
+     * Число проверенных лучей.
+     */
+    queries: number;
+
+    /**
+     * Суммарное время проверки лучей (в миллисекундах).
+     */
+    queryTime: number;
+}
+
+/**
+ * Пространственный индекс треугольников препятствий в мировых координатах.
+ */
+class ObstacleIndex {
+    private constructor(
+        private readonly bvh: TriangleBVH,
+        private readonly owners: Obstacle[],
+        private readonly ownerOf: Uint32Array,
+        private readonly twoSided: Uint8Array,
+    ) {}
+
+    /**
+     * Строит индекс по треугольникам препятствий, попадающим в коридор.
+     *
+     * @param obstacles - Препятствия с признаком двусторонней проверки.
+     * @param corridor - Области коридора.
+     * @returns Пространственный индекс.
+     */
+    static build(obstacles: [Obstacle, boolean][], corridor: CorridorBox[]): ObstacleIndex {
+        const positions: number[] = [];
+        const ownerOf: number[] = [];
+        const twoSided: number[] = [];
+        const owners: Obstacle[] = [];
+        const vertex: vec3 = [0.0, 0.0, 0.0];
+        const triangle = new Array<number>(9);
+
+        const inCorridor = () => corridor.some(([xmin, ymin, xmax, ymax]) =>
+            Math.max(triangle[0], triangle[3], triangle[6]) >= xmin && Math.min(triangle[0], triangle[3], triangle[6]) <= xmax &&
+            Math.max(triangle[1], triangle[4], triangle[7]) >= ymin && Math.min(triangle[1], triangle[4], triangle[7]) <= ymax);
+
+        const addGeometry = (geometry: MeshGeometry, matrix: mat4 | undefined, owner: number, sided: boolean) => {
+            const { vertices, indices } = geometry;
+            for (let t = 0; t + 2 < indices.length; t += 3) {
+                for (let v = 0; v < 3; ++v) {
+                    const i3 = indices[t + v] * 3;
+                    Math3d.vec3.make(vertex, vertices[i3], vertices[i3 + 1], vertices[i3 + 2]);
+                    if (matrix !== undefined) {
+                        Math3d.mat4.mulv3(vertex, matrix, vertex);
+                    }
+                    triangle[v * 3] = vertex[0];
+                    triangle[v * 3 + 1] = vertex[1];
+                    triangle[v * 3 + 2] = vertex[2];
+                }
+                if (!inCorridor()) {
+                    continue;
+                }
+                positions.push(...triangle);
+                ownerOf.push(owner);
+                twoSided.push(sided ? 1 : 0);
+            }
+        };
+
+        for (const [obstacle, sided] of obstacles) {
+            const owner = owners.length;
+            owners.push(obstacle);
+            const meshes = obstacle.meshes;
+            for (const id in meshes) {
+                const geometry = meshes[id].geometry;
+                if (geometry !== undefined) {
+                    addGeometry(geometry, obstacle.matrix, owner, sided);
+                }
+            }
+        }
+
+        return new ObstacleIndex(new TriangleBVH(Float64Array.from(positions)), owners, Uint32Array.from(ownerOf), Uint8Array.from(twoSided));
+    }
+
+    /**
+     * Число треугольников в индексе.
+     */
+    get size(): number {
+        return this.bvh.size;
+    }
+
+    /**
+     * Формирует данные индекса для передачи в потоки вычисления.
+     *
+     * @param transmittance - Доля света, проходящего через препятствие.
+     * @returns Треугольники, их владельцы, признаки двусторонней проверки и прозрачность владельцев.
+     */
+    scene(transmittance: (obstacle: Obstacle) => number): RaycastScene {
+        return {
+            bvh: this.bvh.data(),
+            ownerOf: this.ownerOf,
+            twoSided: this.twoSided,
+            transmittance: Float64Array.from(this.owners, transmittance),
+            minTransmittance: MIN_TRANSMITTANCE,
+        };
+    }
+
+    /**
+     * Возвращает препятствие по номеру владельца треугольника.
+     *
+     * @param owner - Номер владельца.
+     * @returns Препятствие.
+     */
+    owner(owner: number): Obstacle {
+        return this.owners[owner];
+    }
+
+    /**
+     * Возвращает номер владельца треугольников для объекта.
+     *
+     * @param obj - Объект чертежа.
+     * @returns Номер владельца либо `-1`, если объект не входит в индекс.
+     */
+    ownerIndex(obj: DwgEntity | undefined): number {
+        return obj !== undefined ? this.owners.indexOf(obj as Obstacle) : -1;
+    }
+
+    /**
+     * Возвращает препятствия, пересекающие отрезок `a`–`b`.
+     *
+     * @param a - Начало отрезка.
+     * @param b - Конец отрезка.
+     * @param exclude - Объект, который не считается препятствием.
+     * @returns Найденные препятствия.
+     */
+    find(a: vec3, b: vec3, exclude?: DwgEntity): Obstacle[] {
+        const found = new Set<number>();
+        const data = this.bvh.data();
+        walkTriangles(data, a, b, (triangle) => {
+            const owner = this.ownerOf[triangle];
+            if (found.has(owner) || this.owners[owner] === exclude) {
+                return;
+            }
+            if (segmentCrossesTriangle(data.positions, triangle, a, b, this.twoSided[triangle] === 1)) {
+                found.add(owner);
+            }
+        });
+        return [...found].map((owner) => this.owners[owner]);
+    }
+}
+
+/**
+ * Поиск препятствий, пересекающих отрезок между точкой наблюдения и объектом.
+ *
+ * Кэширует обратные матрицы моделей и может построить пространственный индекс треугольников
+ * препятствий, поэтому один экземпляр следует использовать на протяжении всего выполнения правила.
+ */
+export class ObstacleFinder {
+    private readonly inverseMatrices = new WeakMap<DwgModel3d, mat4>();
+    private readonly lowModels = new WeakMap<DwgModel3d, boolean>();
+    private index: ObstacleIndex | undefined;
+    private pool: RaycastPool | undefined;
+    private shared: Map<DwgEntity | undefined, Map<string, Obstacle[]>> | undefined;
+
+    /**
+     * Статистика поиска за выполнение правила.
+     */
+    readonly stats: ObstacleFinderStats = { triangles: 0, buildTime: 0, queries: 0, queryTime: 0 };
+
+    /**
+     * @param drawingLayer - Слой чертежа, по которому выполняется выборка.
+     * @param modelLayers - Слои 3D-моделей препятствий; `undefined` — любые слои.
+     * @param surfaceLayers - Слои поверхностей рельефа и дороги; `undefined` — поверхности не учитываются.
+     * @param classes - Поведение препятствий по слоям; по умолчанию все препятствия непрозрачны.
+     */
+    constructor(
+        private readonly drawingLayer: DrawingLayer,
+        private readonly modelLayers: LayerSet | undefined,
+        private readonly surfaceLayers: LayerSet | undefined,
+        private readonly classes: ObstacleClasses = { transparency: 0.0, lowHeight: 0.0 },
+    ) {}
+
+    /**
+     * Проверяет, относится ли препятствие к поверхностям рельефа или дороги.
+     *
+     * @param obstacle - Найденное препятствие.
+     * @returns `true`, если препятствие расположено на слое поверхностей.
+     */
+    isSurface(obstacle: Obstacle): boolean {
+        return inLayers(this.surfaceLayers, obstacle);
+    }
+
+    /**
+     * Возвращает долю света, проходящего через препятствие.
+     *
+     * @param obstacle - Найденное препятствие.
+     * @returns Прозрачность для полупрозрачных препятствий, иначе `0`.
+     */
+    transmittance(obstacle: Obstacle): number {
+        return inLayers(this.classes.transparentLayers, obstacle) ? this.classes.transparency : 0.0;
+    }
+
+    /**
+     * Вычисляет долю света, проходящего через все препятствия на луче.
+     *
+     * @param obstacles - Препятствия на луче.
+     * @returns Доля света от 0 до 1; `1` — на луче нет препятствий.
+     */
+    visibility(obstacles: Obstacle[]): number {
+        return obstacles.reduce((share, obstacle) => share * this.transmittance(obstacle), 1.0);
+    }
+
+    /**
+     * Проверяет, закрывают ли препятствия луч.
+     *
+     * @param obstacles - Препятствия на луче.
+     * @returns `true`, если через препятствия проходит меньше половины света.
+     */
+    blocks(obstacles: Obstacle[]): boolean {
+        return this.visibility(obstacles) < MIN_TRANSMITTANCE;
+    }
+
+    /**
+     * Проверяет, относится ли модель к низким препятствиям, которые не учитываются.
+     *
+     * @param model - 3D-модель.
+     * @returns `true`, если модель расположена на слое низких препятствий и ее верх ниже заданной
+     * высоты над дорогой. Вне трасс высота отсчитывается от основания модели.
+     */
+    private isLow(model: DwgModel3d): boolean {
+        if (!inLayers(this.classes.lowLayers, model)) {
+            return false;
+        }
+        let low = this.lowModels.get(model);
+        if (low === undefined) {
+            const bounds = modelBounds(model);
+            if (bounds === undefined) {
+                low = false;
+            } else {
+                const center: vec2 = [(bounds.min[0] + bounds.max[0]) * 0.5, (bounds.min[1] + bounds.max[1]) * 0.5];
+                const ground = roadElevationAt(this.classes.roads ?? [], center) ?? bounds.min[2];
+                low = bounds.max[2] - ground < this.classes.lowHeight;
+            }
+            this.lowModels.set(model, low);
+        }
+        return low;
+    }
+
+    /**
+     * Проверяет, может ли объект ограничивать видимость.
+     *
+     * @param obj - Объект чертежа.
+     * @returns `undefined`, если объект не является препятствием, иначе признак
+     * двусторонней проверки треугольников (для поверхностей).
+     */
+    private twoSided(obj: DwgEntity): boolean | undefined {
+        if (obj.type !== DwgType.model3d) {
+            return undefined;
+        }
+        // Поверхности рельефа и коридора дороги представлены 3D-моделями на слоях поверхностей
+        const onSurfaceLayer = inLayers(this.surfaceLayers, obj);
+        if (!onSurfaceLayer && this.modelLayers !== undefined && !inLayers(this.modelLayers, obj)) {
+            return undefined;
+        }
+        if (this.isLow(obj as DwgModel3d)) {
+            return undefined;
+        }
+        return onSurfaceLayer;
+    }
+
+    /**
+     * Строит пространственный индекс треугольников препятствий в пределах коридора.
+     * После построения поиск выполняется только по индексу, поэтому лучи
+     * не должны выходить за пределы коридора.
+     *
+     * @param corridor - Области коридора вокруг трасс.
+     */
+    buildIndex(corridor: CorridorBox[]) {
+        const start = performance.now();
+        const obstacles: [Obstacle, boolean][] = [];
+        for (const obj of this.drawingLayer.selectableObjects(new UnboundedFrustum(), (obj) => this.twoSided(obj) !== undefined)) {
+            obstacles.push([obj as Obstacle, this.twoSided(obj)!]);
+        }
+        this.index = ObstacleIndex.build(obstacles, corridor);
+        this.stats.triangles = this.index.size;
+        this.stats.buildTime = performance.now() - start;
+    }
+
+    /**
+     * Запускает потоки вычисления, проверяющие лучи по копии пространственного индекса.
+     * Потоки запускаются только после построения индекса; их следует остановить вызовом `dispose`.
+     *
+     * @param maxWorkers - Наибольшее число потоков.
+     * @returns Число запущенных потоков; `0` — лучи проверяются в основном потоке.
+     */
+    startWorkers(maxWorkers: number): number {
+        const size = Math.min(Math.floor(maxWorkers), navigator.hardwareConcurrency ?? 1);
+        if (this.index === undefined || size < 2) {
+            return 0;
+        }
+        this.pool = RaycastPool.create(this.index.scene((obstacle) => this.transmittance(obstacle)), size);
+        return this.pool?.size ?? 0;
+    }
+
+    /**
+     * Признак проверки лучей в потоках вычисления.
+     */
+    get parallel(): boolean {
+        return this.pool !== undefined;
+    }
+
+    /**
+     * Останавливает потоки вычисления.
+     */
+    dispose() {
+        this.pool?.terminate();
+        this.pool = undefined;
+    }
+
+    /**
+     * Включает кэш результатов поиска по отрезкам, общий для направлений движения.
+     * При проверке обоих направлений лучи с совпадающими концами (например, с полос
+     * встречного направления к одному объекту) проверяются один раз.
+     */
+    shareQueries() {
+        this.shared = new Map();
+    }
+
+    /**
+     * Очищает общий кэш результатов поиска при переходе к лучам, которые не могут
+     * совпасть с уже проверенными (например, к следующей трассе).
+     */
+    clearShared() {
+        this.shared?.clear();
+    }
+
+    /**
+     * Возвращает общий кэш результатов поиска для исключаемого объекта.
+     *
+     * @param exclude - Объект, который не считается препятствием.
+     * @returns Результаты по ключам отрезков либо `undefined`, если кэш не включен.
+     */
+    private sharedResults(exclude?: DwgEntity): Map<string, Obstacle[]> | undefined {
+        if (this.shared === undefined) {
+            return undefined;
+        }
+        let results = this.shared.get(exclude);
+        if (results === undefined) {
+            this.shared.set(exclude, results = new Map());
+        }
+        return results;
+    }
+
+    /**
+     * Собирает результаты группы лучей из общего кэша.
+     *
+     * @param shared - Общий кэш результатов поиска.
+     * @param group - Группа лучей.
+     * @returns Препятствия на лучах группы либо `undefined`, если хотя бы один нужный луч не проверялся.
+     */
+    private cachedGroup(shared: Map<string, Obstacle[]>, { origin, targets, first }: RayGroup): Obstacle[][] | undefined {
+        const found: Obstacle[][] = [];
+        for (const target of targets) {
+            const obstacles = shared.get(segmentKey(origin, target));
+            if (obstacles === undefined) {
+                return undefined;
+            }
+            found.push(obstacles);
+            if (first && this.blocks(obstacles)) {
+                break;
+            }
+        }
+        return found;
+    }
+
+    /**
+     * Проверяет группы лучей в потоках вычисления, а если они не запущены — в основном потоке.
+     * При сбое потока вычисления потоки останавливаются, и лучи проверяются в основном потоке.
+     *
+     * @param groups - Группы лучей из одной точки наблюдения.
+     * @param exclude - Объект, который не считается препятствием.
+     * @returns Для каждой группы — препятствия на лучах к проверенным точкам, начиная с первой.
+     * Если в группе задана остановка на первом закрытом луче (см. {@link blocks}), следующие за ним лучи не проверяются.
+     */
+    async castRays(groups: RayGroup[], exclude?: DwgEntity): Promise<Obstacle[][][]> {
+        if (this.pool === undefined || this.index === undefined) {
+            return groups.map(({ origin, targets, first }) => {
+                const found: Obstacle[][] = [];
+                for (const target of targets) {
+                    const obstacles = this.find(origin, target, exclude);
+                    found.push(obstacles);
+                    if (first && this.blocks(obstacles)) {
+                        break;
+                    }
+                }
+                return found;
+            });
+        }
+
+        const index = this.index;
+        const shared = this.sharedResults(exclude);
+        // Группы, все лучи которых уже проверены для другого направления, в потоки не передаются
+        const found = groups.map((group) => shared !== undefined ? this.cachedGroup(shared, group) : undefined);
+        const pending = groups.filter((_, i) => found[i] === undefined);
+        if (pending.length === 0) {
+            return found as Obstacle[][][];
+        }
+
+        const start = performance.now();
+        let casts: RayGroupHits[];
+        try {
+            casts = await this.pool.cast(pending, index.ownerIndex(exclude));
+        } catch {
+            this.dispose();
+            return this.castRays(groups, exclude);
+        }
+        let next = 0;
+        for (let i = 0; i < groups.length; ++i) {
+            if (found[i] !== undefined) {
+                continue;
+            }
+            const { tested, hits } = casts[next++];
+            const obstacles = Array.from({ length: tested }, (): Obstacle[] => []);
+            for (const [target, owner] of hits) {
+                obstacles[target].push(index.owner(owner));
+            }
+            obstacles.forEach((targetObstacles, target) => shared?.set(segmentKey(groups[i].origin, groups[i].targets[target]), targetObstacles));
+            found[i] = obstacles;
+        }
+        this.stats.queries += casts.reduce((sum, { tested }) => sum + tested, 0);
+        this.stats.queryTime += performance.now() - start;
+        return found as Obstacle[][][];
+    }
+
+    /**
+     * Формирует описание статистики поиска для вывода в ходе выполнения.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Текст статистики.
+     */
+    statistics(ctx: Context): string {
+        const { triangles, buildTime, queries, queryTime } = this.stats;
+        const perQuery = queries > 0 ? queryTime / queries * 1000 : 0;
+        return this.index !== undefined
+            ? ctx.tr('индекс: {0} треугольников за {1} мс; лучей: {2}, {3} мкс на луч', `${triangles}`, buildTime.toFixed(0), `${queries}`, perQuery.toFixed(1))
+            : ctx.tr('лучей: {0}, {1} мкс на луч', `${queries}`, perQuery.toFixed(1));
+    }
+
+    /**
+     * Возвращает препятствия, пересекающие отрезок `a`–`b`.
+     *
+     * @param a - Точка наблюдения.
+     * @param b - Наблюдаемая точка.
+     * @param exclude - Объект, который не считается препятствием (например, сам наблюдаемый объект).
+     * @returns Найденные препятствия.
+     */
+    find(a: vec3, b: vec3, exclude?: DwgEntity): Obstacle[] {
+        const shared = this.sharedResults(exclude);
+        const key = shared !== undefined ? segmentKey(a, b) : '';
+        const cached = shared?.get(key);
+        if (cached !== undefined) {
+            return cached;
+        }
+        const start = performance.now();
+        const obstacles = this.index !== undefined ? this.index.find(a, b, exclude) : this.select(a, b, exclude);
+        this.stats.queries++;
+        this.stats.queryTime += performance.now() - start;
+        shared?.set(key, obstacles);
+        return obstacles;
+    }
+
+    private select(a: vec3, b: vec3, exclude?: DwgEntity): Obstacle[] {
+        const frustum = new SegmentFrustum(a, b);
+        return [...this.drawingLayer.selectableObjects(frustum, (obj) => {
+            if (obj === exclude) {
+                return false;
+            }
+            const twoSided = this.twoSided(obj);
+            if (twoSided === undefined) {
+                return false;
+            }
+            const model = obj as DwgModel3d;
+            let inverse = this.inverseMatrices.get(model);
+            if (inverse === undefined) {
+                inverse = Math3d.mat4.inverse(Math3d.mat4.alloc(), model.matrix);
+                this.inverseMatrices.set(model, inverse);
+            }
+
+            return modelIntersectsSegment(model, inverse, a, b, twoSided);
+        }) as Generator<Obstacle>];
+    }
+}
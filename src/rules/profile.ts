@@ -0,0 +1,202 @@
+/**
+ * Модуль профиля фактического расстояния видимости вдоль трассы.
+ *
+ * Хранит результаты последнего расчета, формирует данные для графика
+ * «пикет — расстояние видимости» и сериализует профиль в CSV и JSON.
+ *
+ * @packageDocumentation
+ */
+
+import { csvRow } from '../utils/csv';
+
+/**
+ * Режим формирования результатов проверки видимости вдоль трассы.
+ */
+export enum ReportMode {
+    /**
+     * Только участки с нарушенной видимостью.
+     */
+    RANGES = "RANGES",
+    /**
+     * Участки с нарушенной видимостью и профиль фактического расстояния видимости.
+     */
+    PROFILE = "PROFILE",
+}
+
+/**
+ * Значение фактического расстояния видимости на пикете.
+ */
+export interface SightDistanceSample {
+    /**
+     * Положение точки наблюдения (в метрах от начала трассы по направлению движения).
+     */
+    station: number;
+
+    /**
+     * Пикетажное обозначение точки наблюдения.
+     */
+    pk: string;
+
+    /**
+     * Фактическое расстояние видимости вдоль трассы (в метрах).
+     */
+    distance: number;
+
+    /**
+     * Признак того, что расстояние ограничено концом трассы. Такие значения
+     * не сравниваются с требуемым расстоянием и не выводятся на графике.
+     */
+    limited: boolean;
+
+    /**
+     * Расстояние от оси до границы расчистки видимости с внутренней стороны кривой (в метрах),
+     * если расчет расчистки выполнялся и пикет расположен на кривой.
+     */
+    clearance?: number;
+}
+
+/**
+ * Профиль фактического расстояния видимости вдоль трассы.
+ */
+export interface SightDistanceProfile {
+    /**
+     * Источник (слой) трассы.
+     */
+    alignment: string;
+
+    /**
+     * Направление движения, для которого выполнен расчет.
+     */
+    direction: string;
+
+    /**
+     * Требуемое расстояние видимости (в метрах).
+     */
+    requiredDistance: number;
+
+    /**
+     * Значения расстояния видимости с шагом точки наблюдения.
+     */
+    samples: SightDistanceSample[];
+}
+
+/**
+ * Линия графика, заданная точками [пикет, расстояние].
+ */
+export interface ChartSeries {
+    /**
+     * Подпись линии.
+     */
+    label: string;
+
+    /**
+     * Точки линии.
+     */
+    points: vec2[];
+}
+
+/**
+ * Данные графика профиля видимости.
+ */
+export interface SightDistanceChart {
+    /**
+     * Заголовок графика.
+     */
+    title: string;
+
+    /**
+     * Фактическое расстояние видимости.
+     */
+    available: ChartSeries;
+
+    /**
+     * Пороговая линия требуемого расстояния видимости.
+     */
+    required: ChartSeries;
+}
+
+/**
+ * Профили, полученные при последнем выполнении правила.
+ */
+let lastProfiles: SightDistanceProfile[] = [];
+
+/**
+ * Сохраняет профили последнего расчета для последующего экспорта.
+ *
+ * @param profiles - Профили видимости.
+ */
+export function setLastProfiles(profiles: SightDistanceProfile[]) {
+    lastProfiles = profiles;
+}
+
+/**
+ * Возвращает профили последнего расчета.
+ *
+ * @returns Профили видимости.
+ */
+export function getLastProfiles(): SightDistanceProfile[] {
+    return lastProfiles;
+}
+
+/**
+ * Формирует данные графика «пикет — расстояние видимости».
+ *
+ * @param ctx - Контекст приложения.
+ * @param profile - Профиль видимости.
+ * @returns Данные графика с пороговой линией требуемого расстояния.
+ */
+export function profileChart(ctx: Context, profile: SightDistanceProfile): SightDistanceChart {
+    const { samples, requiredDistance } = profile;
+    const first = samples.length > 0 ? samples[0].station : 0;
+    const last = samples.length > 0 ? samples[samples.length - 1].station : 0;
+    return {
+        title: `${profile.alignment} (${profile.direction})`,
+        available: {
+            label: ctx.tr('Фактическое расстояние видимости'),
+            points: samples.filter((sample) => !sample.limited).map((sample) => [sample.station, sample.distance]),
+        },
+        required: {
+            label: ctx.tr('Требуемое расстояние видимости'),
+            points: [[first, requiredDistance], [last, requiredDistance]],
+        },
+    };
+}
+
+/**
+ * Сериализует профили видимости в CSV.
+ *
+ * @param profiles - Профили видимости.
+ * @returns Текст CSV с разделителем `;`.
+ */
+export function profilesToCSV(profiles: SightDistanceProfile[]): string {
+    const lines = [csvRow(['alignment', 'direction', 'station', 'pk', 'distance', 'required', 'limited', 'clearance'])];
+    for (const profile of profiles) {
+        for (const sample of profile.samples) {
+            lines.push(csvRow([
+                profile.alignment,
+                profile.direction,
+                sample.station,
+                sample.pk,
+                sample.distance,
+                profile.requiredDistance,
+                sample.limited ? 1 : 0,
+                sample.clearance ?? '',
+            ]));
+        }
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Сериализует профили видимости в JSON вместе с данными графиков.
+ *
+ * @param ctx - Контекст приложения.
+ * @param profiles - Профили видимости.
+ * @returns Текст JSON.
+ */
+export function profilesToJSON(ctx: Context, profiles: SightDistanceProfile[]): string {
+    return JSON.stringify(profiles.map((profile) => ({
+        ...profile,
+        chart: profileChart(ctx, profile),
+    })), undefined, 2);
+}
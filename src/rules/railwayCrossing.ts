@@ -0,0 +1,312 @@
+/**
+ * Модуль для проверки видимости на железнодорожных переездах.
+ *
+ * Реализует диагностическое правило, которое находит пересечения трасс автомобильных
+ * и железных дорог, строит зоны видимости переезда для водителя, приближающегося к переезду,
+ * и поезда, приближающегося по пути, и выявляет препятствия внутри зон.
+ *
+ * @packageDocumentation
+ */
+
+import { DiagnosticSeverity, DwgType } from 'albatros/enums';
+import { ProgressReporter } from '../utils/progress';
+import { AlignmentWrapper, directionTitle, MoveDirection, TravelDirection } from './alignmentWrapper';
+import { findCrossings } from './crossings';
+import { filterLayers, Obstacle, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, ResultKind, setLastResults, VisibilityResult } from './results';
+import { approachLeg, legPoint, SightTriangle, travelDistance, triangleObstacles } from './sightTriangle';
+
+/**
+ * Правило проверки видимости на железнодорожных переездах.
+ */
+interface RailwayCrossingVisibilityRule {
+    /**
+     * Фильтр для выбора слоёв, содержащих трассы автомобильных дорог.
+     */
+    roadFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих трассы железнодорожных путей.
+     * Фильтр обязателен: пустой фильтр выбрал бы все трассы чертежа.
+     */
+    railwayFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих препятствия.
+     */
+    obstacleFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв поверхностей рельефа и дороги.
+     * Пустой фильтр отключает учёт поверхностей.
+     */
+    surfaceFilter: string;
+
+    /**
+     * Наибольшая скорость поездов на переезде (в км/ч).
+     */
+    trainSpeed: number;
+
+    /**
+     * Время, за которое автомобиль проезжает переезд от места наблюдения (в секундах).
+     * Поезд должен быть виден на пути, проходимом им за это время.
+     */
+    crossingTime: number;
+
+    /**
+     * Расстояние от переезда, с которого водитель должен видеть поезд (в метрах).
+     */
+    approachDistance: number;
+
+    /**
+     * Смещение глаз водителя от оси автомобильной дороги по ходу движения (в метрах).
+     */
+    viewPointOffset: number;
+
+    /**
+     * Высота глаз водителя над уровнем автомобильной дороги (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Высота наблюдаемой точки поезда над уровнем пути (в метрах).
+     */
+    trainElevation: number;
+
+    /**
+     * Шаг положения водителя вдоль участка приближения (в метрах).
+     */
+    viewPointStep: number;
+}
+
+/**
+ * Диагностика зоны видимости переезда.
+ */
+interface RailwayCrossingVisibilityDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Зона видимости: участки приближения водителя и поезда.
+     */
+    triangle: SightTriangle;
+
+    /**
+     * Препятствия внутри зоны видимости.
+     */
+    obstacles: Set<Obstacle>;
+
+    /**
+     * Наименьшая доля участка приближения, с которой водитель не видит поезд.
+     */
+    blockedFrom: number;
+}
+
+/**
+ * Коэффициент замедления анимации при активации диагностики.
+ */
+let slowdown = 1.0;
+
+/**
+ * Активирует анимацию диагностики: водитель приближается к переезду
+ * и смотрит на поезд, приближающийся по пути.
+ *
+ * @param diagnostic - Диагностика, которую нужно активировать.
+ * @param active - Флаг повторной активации сообщения
+ */
+function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
+    slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
+
+    const { ctx, triangle, obstacles, blockedFrom } = diagnostic as RailwayCrossingVisibilityDiagnostic;
+    const cadview = ctx.cadview;
+    if (!cadview) return;
+
+    const { observer, target } = triangle;
+    const distance = (observer.end - observer.start) * (1.0 - blockedFrom);
+    const speed = 17 * slowdown; // 17 м/с с учётом slowdown
+    const duration = Math.max(distance / speed, 1.0);
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((obj) => obstacles.has(obj), true);
+
+    const position: vec3 = [0.0, 0.0, 0.0];
+    const pivot: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [0.0, 0.0, 0.0];
+    cadview.animate(duration, (t: number) => {
+        t = blockedFrom + Math.min(t, 1.0) * (1.0 - blockedFrom);
+        legPoint(position, observer, t);
+        legPoint(pivot, target, t);
+        Math3d.vec3.sub(direction, pivot, position);
+        Math3d.vec3.normalize(direction, direction);
+        cadview.lookAt(position, direction, undefined, false, pivot);
+        cadview.invalidate();
+    });
+}
+
+/**
+ * Экспорт правила диагностики видимости на железнодорожных переездах.
+ */
+export default {
+    /**
+     * Правило проверки зон видимости на железнодорожных переездах.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Объект правила диагностики.
+     */
+    'rule:visibility:railway-crossing': (ctx: Context): DiagnosticRule<RailwayCrossingVisibilityRule> => {
+        return {
+            /**
+             * Создаёт и возвращает стандартные параметры правила.
+             *
+             * @returns Объект правила по умолчанию.
+             */
+            async createRule() {
+                return {
+                    roadFilter: '$type_1 = SmdxElement',
+                    railwayFilter: '',
+                    obstacleFilter: '$type_1 = SmdxElement',
+                    surfaceFilter: '',
+                    trainSpeed: 120,
+                    crossingTime: 10,
+                    approachDistance: 50,
+                    viewPointOffset: 1.75,
+                    viewPointElevation: 1.2,
+                    trainElevation: 1.5,
+                    viewPointStep: 1,
+                };
+            },
+
+            /**
+             * Находит переезды и проверяет зоны видимости.
+             *
+             * Для каждого переезда проверяется приближение по автомобильной дороге
+             * с обеих сторон и поезд на пути с обоих направлений.
+             *
+             * @param app - Приложение, в котором выполняется проверка.
+             * @param rule - Правило проверки.
+             * @param diagnostics - Коллекция диагностики для добавления результатов.
+             * @param progress - Объект для отслеживания прогресса выполнения.
+             */
+            async execute(app: Application, rule: RailwayCrossingVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
+                const drawing = app.model as Drawing;
+                if (drawing === undefined) {
+                    return;
+                }
+                const cadview = ctx.cadview;
+                if (cadview === undefined) {
+                    return;
+                }
+                const drawingLayer = cadview.layer.drawing;
+                if (drawingLayer === undefined) {
+                    return;
+                }
+
+                const modelName = drawing.layers.layer0?.modelName ?? '';
+                const messages: Record<string, (Diagnostic | RailwayCrossingVisibilityDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
+
+                // Пустой фильтр выбирает все трассы, и пересечения дорог между собой приняли бы за переезды
+                if (!rule.railwayFilter?.trim()) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Не задан фильтр железнодорожных путей'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Задайте фильтр слоев, на которых расположены трассы железнодорожных путей'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+
+                // Получение трасс дорог и путей и переездов между ними
+                const roads = drawing.filterEntities(rule.roadFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[];
+                const railways = drawing.filterEntities(rule.railwayFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[];
+                const crossings = roads.flatMap((road) => railways
+                    .filter((railway) => railway !== road)
+                    .flatMap((railway) => findCrossings(road, railway).map((crossing) => ({ road, railway, crossing }))));
+                if (crossings.length === 0) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Не найдены железнодорожные переезды'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Трассы автомобильных дорог и железнодорожных путей, удовлетворяющие заданным фильтрам, не пересекаются'),
+                        ctx,
+                    }];
+                }
+
+                const obstacleFinder = new ObstacleFinder(drawingLayer, drawing.filterLayers(rule.obstacleFilter, false), filterLayers(drawing, rule.surfaceFilter));
+                const trainDistance = travelDistance(rule.trainSpeed, rule.crossingTime);
+                const directions: TravelDirection[] = [MoveDirection.FORWARD, MoveDirection.BACKWARD];
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
+
+                for (let index = 0; index < crossings.length; ++index) {
+                    const { road, railway, crossing } = crossings[index];
+                    const roadPK = road.toPK(crossing.stationA);
+                    const railwayPK = railway.toPK(crossing.stationB);
+                    for (const roadDirection of directions) {
+                        const roadAlignment = new AlignmentWrapper(road, roadDirection);
+                        const observer = approachLeg(roadAlignment, crossing.stationA, rule.approachDistance, rule.viewPointOffset, rule.viewPointElevation);
+                        if (observer === undefined) {
+                            continue;
+                        }
+                        let collection = messages[roadAlignment.modelName];
+                        if (collection === undefined) {
+                            messages[roadAlignment.modelName] = collection = [];
+                        }
+                        for (const railwayDirection of directions) {
+                            const target = approachLeg(new AlignmentWrapper(railway, railwayDirection), crossing.stationB, trainDistance, 0.0, rule.trainElevation);
+                            if (target === undefined) {
+                                continue;
+                            }
+                            await reporter.report(index / crossings.length, () => ctx.tr('Проверка переезда {0} / {1}', roadPK, railwayPK));
+
+                            // Веер лучей от водителя к поезду внутри зоны видимости
+                            const triangle: SightTriangle = { observer, target };
+                            const { obstacles, blockedFrom } = triangleObstacles(triangle, obstacleFinder, rule.viewPointStep);
+                            if (obstacles.size === 0) {
+                                continue;
+                            }
+
+                            const message = ctx.tr(
+                                'Зона видимости переезда {0} / {1} не свободна от препятствий: приближение {2}, поезд {3}',
+                                roadPK, railwayPK, directionTitle(ctx, roadDirection), directionTitle(ctx, railwayDirection),
+                            );
+                            results.push({
+                                kind: ResultKind.RAILWAY_CROSSING,
+                                alignment: roadAlignment.source,
+                                direction: roadDirection,
+                                from: observer.start,
+                                to: observer.end,
+                                fromPK: roadAlignment.toPK(observer.start),
+                                toPK: roadAlignment.toPK(observer.end),
+                                message,
+                                obstacles: [...obstacles].map(entityRef),
+                                axis: axisPoints(roadAlignment, observer.start, observer.end),
+                            });
+                            collection.push({
+                                message,
+                                severity: DiagnosticSeverity.Error,
+                                source: `${roadAlignment.source} × ${target.alignment.source}`,
+                                tooltip: ctx.tr('Участок приближения {0} м, видимость вдоль пути {1} м', (observer.end - observer.start).toFixed(0), (target.end - target.start).toFixed(0)),
+                                activation: activateDiagnostic,
+                                ctx,
+                                triangle,
+                                obstacles,
+                                blockedFrom,
+                            });
+                        }
+                    }
+                }
+
+                setLastResults('rule:visibility:railway-crossing', results);
+
+                // Сохранение результатов диагностики
+                for (const uri in messages) {
+                    diagnostics.set(uri, messages[uri]);
+                }
+            }
+        };
+    },
+};
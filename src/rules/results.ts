@@ -0,0 +1,277 @@
+/**
+ * Модуль сериализуемых результатов проверок видимости.
+ *
+ * Диагностики хранятся только в коллекции диагностики приложения и ссылаются на объекты
+ * чертежа, поэтому для экспорта результаты дублируются в модели, не зависящей от чертежа:
+ * трасса, направление, участок в метрах и пикетах, идентификаторы и слои препятствий и объекта.
+ *
+ * @packageDocumentation
+ */
+
+import { csvRow } from '../utils/csv';
+import { AlignmentWrapper } from './alignmentWrapper';
+
+/**
+ * Шаг точек оси участка для GeoJSON (в метрах).
+ */
+const AXIS_STEP = 5.0;
+
+/**
+ * Вид результата проверки.
+ */
+export enum ResultKind {
+    /**
+     * Участок трассы, на котором не обеспечена видимость вдоль трассы.
+     */
+    ALIGNMENT = "ALIGNMENT",
+    /**
+     * Участок трассы, с которого не виден объект.
+     */
+    OBJECT = "OBJECT",
+    /**
+     * Участок кривой, на котором требуется расчистка видимости.
+     */
+    CLEARANCE = "CLEARANCE",
+    /**
+     * Треугольник видимости пересечения, в котором обнаружены препятствия.
+     */
+    INTERSECTION = "INTERSECTION",
+    /**
+     * Участок приближения к пешеходному переходу, на котором видимость не обеспечена.
+     */
+    CROSSWALK = "CROSSWALK",
+    /**
+     * Участок приближения к знаку, на котором знак читается, короче требуемого.
+     */
+    LEGIBILITY = "LEGIBILITY",
+    /**
+     * Участок трассы, с которого знак закрыт другим знаком.
+     */
+    OCCLUSION = "OCCLUSION",
+    /**
+     * Участок трассы, на котором в поле зрения водителя слишком много знаков.
+     */
+    CLUTTER = "CLUTTER",
+    /**
+     * Участок приближения к стоп-линии, с которого светофор не виден.
+     */
+    SIGNAL = "SIGNAL",
+    /**
+     * Участок трассы, на котором дальность освещения фарами меньше требуемой.
+     */
+    HEADLIGHT = "HEADLIGHT",
+    /**
+     * Зона видимости железнодорожного переезда, в которой обнаружены препятствия.
+     */
+    RAILWAY_CROSSING = "RAILWAY_CROSSING",
+}
+
+/**
+ * Ссылка на объект чертежа.
+ */
+export interface EntityRef {
+    /**
+     * Идентификатор объекта в чертеже.
+     */
+    id: string;
+
+    /**
+     * Путь слоя объекта.
+     */
+    layer: string;
+}
+
+/**
+ * Результат проверки видимости на участке трассы.
+ */
+export interface VisibilityResult {
+    /**
+     * Вид результата.
+     */
+    kind: ResultKind;
+
+    /**
+     * Источник (слой) трассы.
+     */
+    alignment: string;
+
+    /**
+     * Направление движения.
+     */
+    direction: string;
+
+    /**
+     * Начало участка (в метрах от начала трассы по направлению движения).
+     */
+    from: number;
+
+    /**
+     * Конец участка (в метрах от начала трассы по направлению движения).
+     */
+    to: number;
+
+    /**
+     * Пикетажное обозначение начала участка.
+     */
+    fromPK: string;
+
+    /**
+     * Пикетажное обозначение конца участка.
+     */
+    toPK: string;
+
+    /**
+     * Наименование полосы с наихудшей видимостью.
+     */
+    lane?: string;
+
+    /**
+     * Профиль транспортного средства, для которого выполнена проверка.
+     */
+    vehicle?: string;
+
+    /**
+     * Текст сообщения диагностики.
+     */
+    message: string;
+
+    /**
+     * Препятствия на участке.
+     */
+    obstacles: EntityRef[];
+
+    /**
+     * Проверяемый объект (для проверки видимости объектов).
+     */
+    target?: EntityRef;
+
+    /**
+     * Точки оси трассы на участке в мировых координатах.
+     */
+    axis: vec3[];
+}
+
+/**
+ * Возвращает путь слоя объекта чертежа.
+ *
+ * @param obj - Объект чертежа.
+ * @returns Путь слоя в виде `слой/подслой`.
+ */
+export function layerPath(obj: DwgEntity): string {
+    return `${obj.layer?.layer?.name}/${obj.layer?.name}`;
+}
+
+/**
+ * Формирует ссылку на объект чертежа.
+ *
+ * @param obj - Объект чертежа.
+ * @returns Идентификатор и путь слоя объекта.
+ */
+export function entityRef(obj: DwgEntity): EntityRef {
+    return { id: obj.$id ?? '', layer: layerPath(obj) };
+}
+
+/**
+ * Строит точки оси трассы на участке.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param from - Начало участка.
+ * @param to - Конец участка.
+ * @returns Точки оси в мировых координатах.
+ */
+export function axisPoints(alignment: AlignmentWrapper, from: number, to: number): vec3[] {
+    const points: vec3[] = [];
+    const n = Math.max(Math.ceil((to - from) / AXIS_STEP), 1);
+    for (let i = 0; i <= n; ++i) {
+        const station = from + (to - from) * i / n;
+        const point: vec3 = [0.0, 0.0, 0.0];
+        alignment.toWCS(point as unknown as vec2, [station, 0.0]);
+        point[2] = alignment.elevationAt(station);
+        points.push(point);
+    }
+    return points;
+}
+
+/**
+ * Результаты последнего выполнения каждого правила.
+ */
+const lastResults = new Map<string, VisibilityResult[]>();
+
+/**
+ * Сохраняет результаты последнего выполнения правила.
+ *
+ * @param rule - Идентификатор правила.
+ * @param results - Результаты проверки.
+ */
+export function setLastResults(rule: string, results: VisibilityResult[]) {
+    lastResults.set(rule, results);
+}
+
+/**
+ * Возвращает результаты последнего выполнения всех правил.
+ *
+ * @returns Результаты проверок.
+ */
+export function getLastResults(): VisibilityResult[] {
+    return [...lastResults.values()].flat();
+}
+
+/**
+ * Сериализует результаты в JSON.
+ *
+ * @param results - Результаты проверок.
+ * @returns Текст JSON.
+ */
+export function resultsToJSON(results: VisibilityResult[]): string {
+    return JSON.stringify(results, undefined, 2);
+}
+
+/**
+ * Сериализует результаты в CSV. Ось участка не выводится,
+ * идентификаторы и слои препятствий перечисляются через запятую.
+ *
+ * @param results - Результаты проверок.
+ * @returns Текст CSV с разделителем `;`.
+ */
+export function resultsToCSV(results: VisibilityResult[]): string {
+    const lines = [csvRow(['kind', 'alignment', 'direction', 'from', 'to', 'fromPK', 'toPK', 'lane', 'vehicle', 'target', 'targetLayer', 'obstacles', 'obstacleLayers', 'message'])];
+    for (const result of results) {
+        lines.push(csvRow([
+            result.kind,
+            result.alignment,
+            result.direction,
+            result.from,
+            result.to,
+            result.fromPK,
+            result.toPK,
+            result.lane ?? '',
+            result.vehicle ?? '',
+            result.target?.id ?? '',
+            result.target?.layer ?? '',
+            result.obstacles.map((obstacle) => obstacle.id).join(','),
+            [...new Set(result.obstacles.map((obstacle) => obstacle.layer))].join(','),
+            result.message,
+        ]));
+    }
+    return lines.join('\n');
+}
+
+/**
+ * Сериализует результаты в GeoJSON: каждый участок — линия вдоль оси трассы.
+ *
+ * @param results - Результаты проверок.
+ * @returns Текст GeoJSON.
+ */
+export function resultsToGeoJSON(results: VisibilityResult[]): string {
+    return JSON.stringify({
+        type: 'FeatureCollection',
+        features: results.map(({ axis, ...properties }) => ({
+            type: 'Feature',
+            geometry: {
+                type: 'LineString',
+                coordinates: axis.map((point) => [point[0], point[1], point[2]]),
+            },
+            properties,
+        })),
+    }, undefined, 2);
+}
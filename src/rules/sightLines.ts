@@ -0,0 +1,188 @@
+/**
+ * Модуль лучей видимости, сохраняемых для построения зон видимости в чертеже.
+ *
+ * Накапливает огибающую требуемых лучей видимости по обе стороны от оси трассы
+ * (границу зоны, которую необходимо освобождать от растительности и строений)
+ * и лучи видимости участков, на которых видимость не обеспечена.
+ *
+ * @packageDocumentation
+ */
+
+import { AlignmentWrapper } from './alignmentWrapper';
+
+/**
+ * Шаг разбиения луча видимости при построении огибающей (в метрах).
+ */
+const ENVELOPE_STEP = 5.0;
+
+/**
+ * Шаг пикетов огибающей (в метрах).
+ */
+const ENVELOPE_BIN = 1.0;
+
+/**
+ * Наименьшее расстояние между сохраняемыми лучами участков с нарушенной видимостью (в метрах).
+ */
+const FAILING_LINE_SPACING = 5.0;
+
+/**
+ * Лучи видимости трассы в мировых координатах.
+ */
+export interface SightLineSet {
+    /**
+     * Источник (слой) трассы.
+     */
+    alignment: string;
+
+    /**
+     * Направление движения, для которого построены лучи.
+     */
+    direction: string;
+
+    /**
+     * Полилинии огибающей слева от оси по ходу движения.
+     */
+    left: vec3[][];
+
+    /**
+     * Полилинии огибающей справа от оси по ходу движения.
+     */
+    right: vec3[][];
+
+    /**
+     * Лучи видимости участков, на которых видимость не обеспечена.
+     */
+    failing: [vec3, vec3][];
+}
+
+/**
+ * Лучи видимости, полученные при последнем выполнении правила, вместе с чертежом,
+ * в котором выполнялась проверка.
+ */
+let lastSightLines: { drawing: WeakRef<Drawing>, sets: SightLineSet[] } | undefined;
+
+/**
+ * Сохраняет лучи видимости последнего расчета.
+ *
+ * @param drawing - Чертёж, в котором выполнялась проверка.
+ * @param sets - Лучи видимости трасс.
+ */
+export function setLastSightLines(drawing: Drawing, sets: SightLineSet[]) {
+    lastSightLines = { drawing: new WeakRef(drawing), sets };
+}
+
+/**
+ * Возвращает лучи видимости последнего расчета.
+ *
+ * @returns Чертёж и лучи видимости либо `undefined`, если расчет не выполнялся или чертёж закрыт.
+ */
+export function getLastSightLines(): { drawing: Drawing, sets: SightLineSet[] } | undefined {
+    const drawing = lastSightLines?.drawing.deref();
+    if (lastSightLines === undefined || drawing === undefined) {
+        return undefined;
+    }
+    return { drawing, sets: lastSightLines.sets };
+}
+
+const _point: vec3 = [0.0, 0.0, 0.0];
+const _stationOffset: vec2 = [0.0, 0.0];
+
+/**
+ * Накопитель лучей видимости одной трассы.
+ */
+export class SightLineCollector {
+    private readonly leftOffsets = new Map<number, number>();
+    private readonly rightOffsets = new Map<number, number>();
+    private readonly failing: [vec3, vec3][] = [];
+    private lastFailingStation = -Infinity;
+
+    /**
+     * @param alignment - Трасса с направлением движения.
+     */
+    constructor(private readonly alignment: AlignmentWrapper) {}
+
+    /**
+     * Добавляет требуемый луч видимости в огибающую.
+     *
+     * @param a - Точка наблюдения.
+     * @param b - Наблюдаемая точка на требуемом расстоянии.
+     */
+    addSightLine(a: vec3, b: vec3) {
+        const length = Math3d.vec3.distance(a, b);
+        const n = Math.max(Math.ceil(length / ENVELOPE_STEP), 1);
+        for (let i = 0; i <= n; ++i) {
+            const t = i / n;
+            _point[0] = a[0] + (b[0] - a[0]) * t;
+            _point[1] = a[1] + (b[1] - a[1]) * t;
+            _point[2] = a[2] + (b[2] - a[2]) * t;
+            this.alignment.fromWCS(_stationOffset, _point as unknown as vec2);
+            const [station, offset] = _stationOffset;
+            if (station < 0 || station > this.alignment.length) {
+                continue;
+            }
+            const bin = Math.round(station / ENVELOPE_BIN);
+            if (offset > 0) {
+                this.rightOffsets.set(bin, Math.max(this.rightOffsets.get(bin) ?? 0, offset));
+            } else if (offset < 0) {
+                this.leftOffsets.set(bin, Math.min(this.leftOffsets.get(bin) ?? 0, offset));
+            }
+        }
+    }
+
+    /**
+     * Добавляет луч видимости участка, на котором видимость не обеспечена.
+     * Близко расположенные лучи прореживаются.
+     *
+     * @param station - Положение точки наблюдения.
+     * @param a - Точка наблюдения.
+     * @param b - Наблюдаемая точка, закрытая препятствием.
+     */
+    addFailingLine(station: number, a: vec3, b: vec3) {
+        if (Math.abs(station - this.lastFailingStation) < FAILING_LINE_SPACING) {
+            return;
+        }
+        this.lastFailingStation = station;
+        this.failing.push([[a[0], a[1], a[2]], [b[0], b[1], b[2]]]);
+    }
+
+    /**
+     * Строит лучи видимости трассы в мировых координатах.
+     *
+     * @returns Набор лучей видимости.
+     */
+    build(): SightLineSet {
+        return {
+            alignment: this.alignment.source,
+            direction: this.alignment.direction,
+            left: this.polylines(this.leftOffsets),
+            right: this.polylines(this.rightOffsets),
+            failing: this.failing,
+        };
+    }
+
+    private polylines(offsets: Map<number, number>): vec3[][] {
+        const bins = [...offsets.keys()].sort((a, b) => a - b);
+        const polylines: vec3[][] = [];
+        let polyline: vec3[] = [];
+        let previous = -Infinity;
+        for (const bin of bins) {
+            // Разрыв огибающей там, где лучи не проходят
+            if ((bin - previous) * ENVELOPE_BIN > 2 * ENVELOPE_STEP && polyline.length > 0) {
+                if (polyline.length > 1) {
+                    polylines.push(polyline);
+                }
+                polyline = [];
+            }
+            previous = bin;
+            const station = Math.min(bin * ENVELOPE_BIN, this.alignment.length);
+            const point: vec3 = [0.0, 0.0, 0.0];
+            this.alignment.toWCS(point as unknown as vec2, [station, offsets.get(bin)!]);
+            point[2] = this.alignment.elevationAt(station);
+            polyline.push(point);
+        }
+        if (polyline.length > 1) {
+            polylines.push(polyline);
+        }
+        return polylines;
+    }
+}
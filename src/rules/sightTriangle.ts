@@ -0,0 +1,186 @@
+/**
+ * Модуль треугольников видимости на пересечениях.
+ *
+ * Треугольник видимости образуется точкой пересечения и двумя участками приближения:
+ * наблюдателя (водителя на второстепенной дороге) и наблюдаемого транспортного средства.
+ * Треугольник проверяется веером лучей: наблюдатель на доле `t` своего участка
+ * приближения должен видеть транспортное средство на той же доле его участка.
+ *
+ * @packageDocumentation
+ */
+
+import { AlignmentWrapper } from './alignmentWrapper';
+import { Obstacle, ObstacleFinder } from './obstacles';
+
+/**
+ * Время реакции водителя при расчете расстояния видимости для остановки (в секундах).
+ */
+const REACTION_TIME = 2.5;
+
+/**
+ * Замедление при торможении при расчете расстояния видимости для остановки (в м/с²).
+ */
+const DECELERATION = 3.4;
+
+/**
+ * Наименьшая длина участка приближения (в метрах), при которой треугольник проверяется.
+ */
+const MIN_LEG_LENGTH = 1.0;
+
+const _observerPoint: vec3 = [0.0, 0.0, 0.0];
+const _targetPoint: vec3 = [0.0, 0.0, 0.0];
+
+/**
+ * Участок приближения к точке пересечения.
+ */
+export interface SightLeg {
+    /**
+     * Трасса с направлением движения к точке пересечения.
+     */
+    alignment: AlignmentWrapper;
+
+    /**
+     * Начало участка приближения (в метрах от начала трассы по направлению движения).
+     */
+    start: number;
+
+    /**
+     * Положение точки пересечения (в метрах от начала трассы по направлению движения).
+     */
+    end: number;
+
+    /**
+     * Смещение от оси трассы (в метрах).
+     */
+    offset: number;
+
+    /**
+     * Высота над уровнем трассы (в метрах).
+     */
+    elevation: number;
+}
+
+/**
+ * Треугольник видимости: участки приближения наблюдателя и наблюдаемого объекта.
+ */
+export interface SightTriangle {
+    /**
+     * Участок приближения наблюдателя.
+     */
+    observer: SightLeg;
+
+    /**
+     * Участок приближения наблюдаемого объекта.
+     */
+    target: SightLeg;
+}
+
+/**
+ * Препятствия внутри треугольника видимости.
+ */
+export interface TriangleObstacles {
+    /**
+     * Препятствия, пересекающие лучи треугольника.
+     */
+    obstacles: Set<Obstacle>;
+
+    /**
+     * Наименьшая доля участка приближения, с которой наблюдатель не видит объект;
+     * `-1` — треугольник свободен от препятствий.
+     */
+    blockedFrom: number;
+}
+
+/**
+ * Вычисляет путь, проходимый за заданное время.
+ *
+ * @param speed - Скорость (в км/ч).
+ * @param time - Время (в секундах).
+ * @returns Путь (в метрах).
+ */
+export function travelDistance(speed: number, time: number): number {
+    return speed / 3.6 * time;
+}
+
+/**
+ * Вычисляет расстояние видимости для остановки.
+ *
+ * @param speed - Скорость (в км/ч).
+ * @returns Путь за время реакции и торможения (в метрах).
+ */
+export function stoppingDistance(speed: number): number {
+    const v = speed / 3.6;
+    return v * REACTION_TIME + v * v / (2 * DECELERATION);
+}
+
+/**
+ * Строит участок приближения к точке пересечения.
+ *
+ * @param alignment - Трасса с направлением движения.
+ * @param crossingStation - Положение точки пересечения по пикетажу трассы.
+ * @param length - Требуемая длина участка приближения.
+ * @param offset - Смещение от оси трассы.
+ * @param elevation - Высота над уровнем трассы.
+ * @returns Участок приближения либо `undefined`, если до точки пересечения трасса слишком коротка.
+ */
+export function approachLeg(alignment: AlignmentWrapper, crossingStation: number, length: number, offset: number, elevation: number): SightLeg | undefined {
+    const end = alignment.fromForwardStation(crossingStation);
+    const start = Math.max(end - length, 0.0);
+    if (end - start < MIN_LEG_LENGTH) {
+        return undefined;
+    }
+    return { alignment, start, end, offset, elevation };
+}
+
+/**
+ * Вычисляет точку участка приближения.
+ *
+ * @param target - Вектор, в который записывается результат.
+ * @param leg - Участок приближения.
+ * @param t - Доля пройденного участка от 0 (начало) до 1 (точка пересечения).
+ * @returns Вектор `target`.
+ */
+export function legPoint(target: vec3, leg: SightLeg, t: number): vec3 {
+    const station = leg.start + (leg.end - leg.start) * t;
+    leg.alignment.toWCS(target as unknown as vec2, [station, leg.offset]);
+    target[2] = leg.alignment.elevationAt(station) + leg.elevation;
+    return target;
+}
+
+/**
+ * Возвращает число лучей, которыми проверяется треугольник.
+ *
+ * @param triangle - Треугольник видимости.
+ * @param step - Шаг точки наблюдения вдоль участка приближения (в метрах).
+ * @returns Число лучей.
+ */
+export function triangleRayCount(triangle: SightTriangle, step: number): number {
+    return Math.max(Math.ceil((triangle.observer.end - triangle.observer.start) / step), 1);
+}
+
+/**
+ * Находит препятствия внутри треугольника видимости, проверяя его веером лучей:
+ * наблюдатель на доле `t` своего участка приближения смотрит на объект на той же доле его участка.
+ *
+ * @param triangle - Треугольник видимости.
+ * @param obstacleFinder - Поиск препятствий.
+ * @param step - Шаг точки наблюдения вдоль участка приближения (в метрах).
+ * @returns Препятствия и доля участка, с которой видимость нарушена.
+ */
+export function triangleObstacles(triangle: SightTriangle, obstacleFinder: ObstacleFinder, step: number): TriangleObstacles {
+    const rays = triangleRayCount(triangle, step);
+    const obstacles = new Set<Obstacle>();
+    let blockedFrom = -1;
+    for (let i = 0; i < rays; ++i) {
+        const t = i / rays;
+        legPoint(_observerPoint, triangle.observer, t);
+        legPoint(_targetPoint, triangle.target, t);
+        for (const obstacle of obstacleFinder.find(_observerPoint, _targetPoint)) {
+            obstacles.add(obstacle);
+            if (blockedFrom < 0) {
+                blockedFrom = t;
+            }
+        }
+    }
+    return { obstacles, blockedFrom };
+}
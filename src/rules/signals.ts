@@ -0,0 +1,487 @@
+/**
+ * Модуль для проверки видимости светофоров.
+ *
+ * Реализует диагностическое правило, которое для каждого светофора проверяет,
+ * что его сигнальная головка видна с каждой полосы на участке от расстояния видимости
+ * для остановки до стоп-линии: водитель находится в пределах конуса видимости головки
+ * по горизонтали и вертикали, а лучи к головке не закрыты препятствиями.
+ *
+ * @packageDocumentation
+ */
+
+import { DiagnosticSeverity, DwgType } from 'albatros/enums';
+import { ProgressReporter } from '../utils/progress';
+import { AlignmentWrapper, directionsOf, directionTitle, MoveDirection } from './alignmentWrapper';
+import { alignmentLanes, Lane, LANE_MAX_OFFSET, parseLanes } from './lanes';
+import { faceSamples, modelBounds, modelCenter, plateFacing } from './models';
+import { alignmentCorridor, filterLayers, Obstacle, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, layerPath, ResultKind, setLastResults, VisibilityResult } from './results';
+import { stoppingDistance } from './sightTriangle';
+
+/**
+ * Наибольшее расстояние от оси трассы до светофора (в метрах),
+ * при котором светофор считается относящимся к трассе.
+ */
+const SIGNAL_MAX_OFFSET = 25.0;
+
+/**
+ * Правило проверки видимости светофоров.
+ */
+interface SignalsVisibilityRule {
+    /**
+     * Фильтр для выбора слоёв трасс.
+     */
+    alignmentFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих сигнальные головки светофоров.
+     */
+    signalFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих препятствия.
+     * Пустой фильтр означает, что препятствием может быть любая 3D-модель, кроме проверяемого светофора.
+     */
+    obstacleFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв поверхностей рельефа и дороги.
+     * Пустой фильтр отключает учёт поверхностей.
+     */
+    surfaceFilter: string;
+
+    /**
+     * Направление движения вдоль трассы.
+     */
+    direction: MoveDirection;
+
+    /**
+     * Расчётная скорость приближения к светофору (в км/ч).
+     */
+    designSpeed: number;
+
+    /**
+     * Расстояние от стоп-линии до светофора вдоль трассы (в метрах).
+     */
+    stopLineDistance: number;
+
+    /**
+     * Смещение глаз водителя от оси трассы (в метрах).
+     * Используется, если полосы движения не заданы.
+     */
+    viewPointOffset: number;
+
+    /**
+     * Полосы движения, с которых проверяется видимость.
+     */
+    lanes: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих оси полос модели коридора.
+     */
+    laneFilter: string;
+
+    /**
+     * Высота глаз водителя над уровнем трассы (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Шаг положения водителя вдоль участка приближения (в метрах).
+     */
+    viewPointStep: number;
+
+    /**
+     * Половина горизонтального угла конуса видимости сигнальной головки (в градусах).
+     */
+    horizontalAngle: number;
+
+    /**
+     * Наибольший угол между горизонталью и линией взгляда на сигнальную головку (в градусах).
+     * Ограничивает видимость вблизи стоп-линии, где головка выходит за край конуса и обзора из кабины.
+     */
+    verticalAngle: number;
+
+    /**
+     * Число лучей по каждой стороне сетки, которой покрывается сигнальная головка.
+     */
+    targetGrid: number;
+
+    /**
+     * Минимальная доля лучей к сигнальной головке (от 0 до 1), не закрытых препятствиями.
+     */
+    minVisibleShare: number;
+}
+
+/**
+ * Причины нарушения видимости светофора на участке.
+ */
+interface SignalFailures {
+    /**
+     * Водитель вне конуса видимости головки по горизонтали.
+     */
+    horizontal: boolean;
+
+    /**
+     * Угол взгляда на головку превышает допустимый по вертикали.
+     */
+    vertical: boolean;
+
+    /**
+     * Лучи к головке закрыты препятствиями.
+     */
+    blocked: boolean;
+}
+
+/**
+ * Диагностика видимости светофора.
+ */
+interface SignalVisibilityDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Трасса с направлением движения.
+     */
+    alignment: AlignmentWrapper;
+
+    /**
+     * Правило, по которому выполнялась проверка.
+     */
+    rule: SignalsVisibilityRule;
+
+    /**
+     * Сигнальная головка светофора.
+     */
+    signal: WeakRef<DwgModel3d>;
+
+    /**
+     * Полоса, с которой видимость нарушена.
+     */
+    lane: Lane;
+
+    /**
+     * Препятствия, мешающие видимости.
+     */
+    obstacles: Set<Obstacle>;
+
+    /**
+     * Начало участка, на котором видимость нарушена (в метрах от начала трассы).
+     */
+    rangeStart: number;
+
+    /**
+     * Конец участка, на котором видимость нарушена (в метрах от начала трассы).
+     */
+    rangeEnd: number;
+}
+
+/**
+ * Коэффициент замедления анимации при активации диагностики.
+ */
+let slowdown = 1.0;
+
+/**
+ * Активирует анимацию диагностики: водитель проезжает участок и смотрит на светофор,
+ * препятствия выделяются.
+ *
+ * @param diagnostic - Диагностика, которую нужно активировать.
+ * @param active - Флаг повторной активации сообщения
+ */
+function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
+    slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
+
+    const { ctx, alignment, rule, signal, lane, obstacles, rangeStart, rangeEnd } = diagnostic as SignalVisibilityDiagnostic;
+    const cadview = ctx.cadview;
+    if (!cadview) return;
+
+    const obj = signal.deref();
+    if (!obj) return;
+
+    const center: vec3 = [0.0, 0.0, 0.0];
+    if (!modelCenter(center, obj)) return;
+
+    const distance = rangeEnd - rangeStart;
+    const speed = 17 * slowdown; // 17 м/с с учётом slowdown
+    const duration = Math.max(Math.abs(distance) / speed, 1.0);
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((o) => obstacles.has(o) || o === obj, true);
+
+    const position: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [0.0, 0.0, 0.0];
+    cadview.animate(duration, (t: number) => {
+        t = Math.min(t, 1.0);
+        const station = rangeStart + t * distance;
+        position[0] = station;
+        position[1] = lane.offsetAt(station) ?? rule.viewPointOffset;
+        alignment.toWCS(position as unknown as vec2, position as unknown as vec2);
+        position[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+        Math3d.vec3.sub(direction, center, position);
+        Math3d.vec3.normalize(direction, direction);
+        cadview.lookAt(position, direction, undefined, false, center);
+        cadview.invalidate();
+    });
+}
+
+/**
+ * Экспорт правила диагностики видимости светофоров.
+ */
+export default {
+    /**
+     * Правило проверки видимости светофоров.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Объект правила диагностики.
+     */
+    'rule:visibility:signals': (ctx: Context): DiagnosticRule<SignalsVisibilityRule> => {
+        return {
+            /**
+             * Создаёт и возвращает стандартные параметры правила.
+             *
+             * @returns Объект правила по умолчанию.
+             */
+            async createRule() {
+                return {
+                    alignmentFilter: '$type_1 = SmdxElement',
+                    signalFilter: '$type_3 = SmdxTrafficLightItem',
+                    obstacleFilter: '',
+                    surfaceFilter: '',
+                    direction: MoveDirection.FORWARD,
+                    designSpeed: 60,
+                    stopLineDistance: 10,
+                    viewPointOffset: 1.75,
+                    lanes: '',
+                    laneFilter: '',
+                    viewPointElevation: 1.2,
+                    viewPointStep: 1,
+                    horizontalAngle: 20,
+                    verticalAngle: 20,
+                    targetGrid: 3,
+                    minVisibleShare: 0.5,
+                };
+            },
+
+            /**
+             * Проверяет видимость каждого светофора с полос на участке приближения к стоп-линии.
+             *
+             * @param app - Приложение, в котором выполняется проверка.
+             * @param rule - Правило проверки.
+             * @param diagnostics - Коллекция диагностики для добавления результатов.
+             * @param progress - Объект для отслеживания прогресса выполнения.
+             */
+            async execute(app: Application, rule: SignalsVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
+                const drawing = app.model as Drawing;
+                if (drawing === undefined) {
+                    return;
+                }
+                const cadview = ctx.cadview;
+                if (cadview === undefined) {
+                    return;
+                }
+                const drawingLayer = cadview.layer.drawing;
+                if (drawingLayer === undefined) {
+                    return;
+                }
+
+                const modelName = drawing.layers.layer0?.modelName ?? '';
+                const messages: Record<string, (Diagnostic | SignalVisibilityDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
+
+                // Получение трасс и светофоров
+                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).flatMap(align => directionsOf(rule.direction).map(direction => new AlignmentWrapper(align as DwgAlignment, direction)));
+                const signals = drawing.filterEntities(rule.signalFilter, obj => obj.type === DwgType.model3d, false) as DwgModel3d[];
+                if (signals.length === 0) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Не найдены подходящие слои светофоров'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Не удалось найти слои светофоров, удовлетворяющие заданному фильтру'),
+                        ctx,
+                    }];
+                }
+
+                // Полосы движения водителя
+                const laneTables = parseLanes(rule.lanes);
+                if (laneTables === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы полосы движения'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Полосы задаются через «;» постоянным смещением или таблицей «пикет: смещение» через запятую'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const laneFilter = rule.laneFilter?.trim() ? rule.laneFilter : undefined;
+                const laneAxes = laneFilter !== undefined ? drawing.filterEntities(laneFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[] : [];
+
+                // Пространственный индекс препятствий в коридоре между полосами и светофорами
+                progress.details = ctx.tr('Построение пространственного индекса препятствий');
+                await new Promise<void>((resolve) => {
+                    setTimeout(resolve, 0);
+                });
+                const obstacleFinder = new ObstacleFinder(drawingLayer, filterLayers(drawing, rule.obstacleFilter), filterLayers(drawing, rule.surfaceFilter));
+                obstacleFinder.buildIndex(alignmentCorridor(alignments, Math.max(LANE_MAX_OFFSET, SIGNAL_MAX_OFFSET)));
+                const approachLength = stoppingDistance(rule.designSpeed);
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
+                const center: vec3 = [0.0, 0.0, 0.0];
+                const stationOffset: vec2 = [0.0, 0.0];
+                const tg: vec3 = [0.0, 0.0, 0.0];
+                const direction: vec3 = [0.0, 0.0, 0.0];
+                const viewDirection: vec2 = [0.0, 0.0];
+                const minHorizontalCos = Math.cos(rule.horizontalAngle * Math.PI / 180);
+
+                for (let index = 0; index < signals.length; ++index) {
+                    const signal = signals[index];
+                    const bounds = modelBounds(signal);
+                    if (bounds === undefined || !modelCenter(center, signal)) {
+                        continue;
+                    }
+                    const facing = plateFacing(signal);
+                    for (let alignmentIndex = 0; alignmentIndex < alignments.length; ++alignmentIndex) {
+                        const alignment = alignments[alignmentIndex];
+                        alignment.fromWCS(stationOffset, center as unknown as vec2);
+                        const signalStation = stationOffset[0];
+                        if (signalStation < 0 || signalStation > alignment.length || Math.abs(stationOffset[1]) > SIGNAL_MAX_OFFSET) {
+                            continue;
+                        }
+                        // Светофор другого направления развернут головкой по ходу движения
+                        alignment.tangentAt(tg, signalStation);
+                        Math3d.vec2.normalize(tg as unknown as vec2);
+                        if (facing !== undefined && !facing.twoSided && Math3d.vec2.dot(facing.normal, tg as unknown as vec2) > 0.0) {
+                            continue;
+                        }
+                        const stopLine = Math.max(signalStation - rule.stopLineDistance, 0.0);
+                        const approachStart = Math.max(stopLine - approachLength, 0.0);
+
+                        let collection = messages[alignment.modelName];
+                        if (collection === undefined) {
+                            messages[alignment.modelName] = collection = [];
+                        }
+                        const lanes = alignmentLanes(ctx, alignment, laneTables, laneAxes, rule.viewPointOffset);
+                        for (const lane of lanes) {
+                            let rangeStart = -1;
+                            let obstacles = new Set<Obstacle>();
+                            let failures: SignalFailures = { horizontal: false, vertical: false, blocked: false };
+
+                            const pushRange = (end: number) => {
+                                const reasons: string[] = [];
+                                if (failures.horizontal) {
+                                    reasons.push(ctx.tr('водитель вне конуса видимости головки по горизонтали'));
+                                }
+                                if (failures.vertical) {
+                                    reasons.push(ctx.tr('головка выше допустимого угла обзора'));
+                                }
+                                if (failures.blocked) {
+                                    reasons.push(ctx.tr('препятствия закрывают головку'));
+                                }
+                                const message = lanes.length > 1
+                                    ? ctx.tr('На участке от {0} до {1} светофор не виден: {2}, полоса: {3}', alignment.toPK(rangeStart), alignment.toPK(end), reasons.join(', '), lane.name)
+                                    : ctx.tr('На участке от {0} до {1} светофор не виден: {2}', alignment.toPK(rangeStart), alignment.toPK(end), reasons.join(', '));
+                                results.push({
+                                    kind: ResultKind.SIGNAL,
+                                    alignment: alignment.source,
+                                    direction: alignment.direction,
+                                    from: rangeStart,
+                                    to: end,
+                                    fromPK: alignment.toPK(rangeStart),
+                                    toPK: alignment.toPK(end),
+                                    lane: lane.name,
+                                    message,
+                                    obstacles: [...obstacles].map(entityRef),
+                                    target: entityRef(signal),
+                                    axis: axisPoints(alignment, rangeStart, end),
+                                });
+                                collection!.push({
+                                    message,
+                                    severity: DiagnosticSeverity.Error,
+                                    source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}, ${layerPath(signal)}`,
+                                    tooltip: ctx.tr('Стоп-линия на пикете {0}, расстояние видимости для остановки {1} м', alignment.toPK(stopLine), approachLength.toFixed(0)),
+                                    activation: activateDiagnostic,
+                                    ctx,
+                                    alignment,
+                                    rule,
+                                    signal: new WeakRef(signal),
+                                    lane,
+                                    obstacles,
+                                    rangeStart,
+                                    rangeEnd: end,
+                                });
+                            };
+
+                            for (let station = approachStart; station <= stopLine; station += rule.viewPointStep) {
+                                await reporter.report(
+                                    (index * alignments.length + alignmentIndex + (station - approachStart) / Math.max(stopLine - approachStart, 1.0)) / (signals.length * alignments.length),
+                                    () => ctx.tr('Проверка светофора {0} из {1} на пикете {2} ({3})', `${index + 1}`, `${signals.length}`, alignment.toPK(signalStation), directionTitle(ctx, alignment.direction)),
+                                );
+                                const viewPointOffset = lane.offsetAt(station);
+                                if (viewPointOffset === undefined) {
+                                    continue;
+                                }
+                                const viewPoint: vec3 = [0.0, 0.0, 0.0];
+                                alignment.toWCS(viewPoint as unknown as vec2, [station, viewPointOffset]);
+                                viewPoint[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+                                Math3d.vec3.sub(direction, center, viewPoint);
+                                Math3d.vec2.normalize(viewDirection, direction as unknown as vec2);
+
+                                // Конус видимости головки по горизонтали
+                                let horizontal = false;
+                                if (facing !== undefined) {
+                                    const cos = -Math3d.vec2.dot(facing.normal, viewDirection);
+                                    horizontal = (facing.twoSided ? Math.abs(cos) : cos) < minHorizontalCos;
+                                }
+                                // Угол взгляда на головку по вертикали
+                                const planDistance = Math.hypot(direction[0], direction[1]);
+                                const vertical = Math.atan2(Math.abs(direction[2]), planDistance) * 180 / Math.PI > rule.verticalAngle;
+                                // Препятствия на лучах к головке
+                                let blocked = false;
+                                if (!horizontal && !vertical) {
+                                    const samples = faceSamples(bounds, viewPoint, rule.targetGrid);
+                                    let visibleRays = 0;
+                                    for (const sample of samples) {
+                                        const found = obstacleFinder.find(viewPoint, sample, signal);
+                                        found.forEach((obstacle) => obstacles.add(obstacle));
+                                        if (!obstacleFinder.blocks(found)) {
+                                            ++visibleRays;
+                                        }
+                                    }
+                                    blocked = visibleRays / samples.length < rule.minVisibleShare;
+                                }
+
+                                if (horizontal || vertical || blocked) {
+                                    if (rangeStart < 0) {
+                                        rangeStart = station;
+                                    }
+                                    failures.horizontal ||= horizontal;
+                                    failures.vertical ||= vertical;
+                                    failures.blocked ||= blocked;
+                                } else {
+                                    if (rangeStart >= 0) {
+                                        pushRange(station);
+                                        rangeStart = -1;
+                                        failures = { horizontal: false, vertical: false, blocked: false };
+                                    }
+                                    obstacles = new Set<Obstacle>();
+                                }
+                            }
+                            if (rangeStart >= 0) {
+                                pushRange(stopLine);
+                            }
+                        }
+                    }
+                }
+
+                setLastResults('rule:visibility:signals', results);
+
+                // Сохранение результатов диагностики
+                for (const uri in messages) {
+                    diagnostics.set(uri, messages[uri]);
+                }
+            }
+        };
+    },
+};
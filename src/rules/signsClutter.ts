@@ -0,0 +1,625 @@
+/**
+ * Модуль для проверки взаимного закрытия и скопления дорожных знаков.
+ *
+ * Реализует диагностическое правило, которое при движении вдоль трассы определяет,
+ * какие знаки закрывают другие знаки и с каких пикетов, а также участки,
+ * на которых в поле зрения водителя одновременно находится слишком много знаков.
+ *
+ * @packageDocumentation
+ */
+
+import { DiagnosticSeverity, DwgType } from 'albatros/enums';
+import { ProgressReporter } from '../utils/progress';
+import { AlignmentWrapper, directionsOf, directionTitle, MoveDirection } from './alignmentWrapper';
+import { alignmentLanes, Lane, LANE_MAX_OFFSET, parseLanes } from './lanes';
+import { faceSamples, ModelBounds, modelBounds, modelCenter, PlateFacing, plateFacing } from './models';
+import { alignmentCorridor, ObstacleFinder } from './obstacles';
+import { axisPoints, entityRef, layerPath, ResultKind, setLastResults, VisibilityResult } from './results';
+
+/**
+ * Правило проверки взаимного закрытия и скопления знаков.
+ */
+interface SignsClutterVisibilityRule {
+    /**
+     * Фильтр для выбора слоёв трасс.
+     */
+    alignmentFilter: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих дорожные знаки.
+     * Знаки с этих слоёв проверяются и считаются препятствиями друг для друга.
+     */
+    objectFilter: string;
+
+    /**
+     * Направление движения вдоль трассы.
+     */
+    direction: MoveDirection;
+
+    /**
+     * Смещение точки наблюдения от оси трассы (в метрах).
+     * Используется, если полосы движения не заданы.
+     */
+    viewPointOffset: number;
+
+    /**
+     * Полосы движения, с которых проверяется видимость.
+     */
+    lanes: string;
+
+    /**
+     * Фильтр для выбора слоёв, содержащих оси полос модели коридора.
+     */
+    laneFilter: string;
+
+    /**
+     * Высота точки наблюдения над уровнем трассы (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Шаг продвижения точки наблюдения вдоль трассы (в метрах).
+     */
+    viewPointStep: number;
+
+    /**
+     * Расстояние, в пределах которого проверяется закрытие знаков (в метрах).
+     */
+    viewDistance: number;
+
+    /**
+     * Горизонтальный угол поля зрения водителя (в градусах).
+     */
+    fieldOfView: number;
+
+    /**
+     * Число лучей по каждой стороне сетки, которой покрывается видимая сторона знака.
+     */
+    targetGrid: number;
+
+    /**
+     * Минимальная доля лучей к знаку (от 0 до 1), не закрытых другими знаками.
+     */
+    minVisibleShare: number;
+
+    /**
+     * Расстояние, в пределах которого знаки в поле зрения учитываются при проверке скопления (в метрах).
+     */
+    clutterDistance: number;
+
+    /**
+     * Наибольшее допустимое число знаков, одновременно находящихся в поле зрения.
+     */
+    maxSigns: number;
+}
+
+/**
+ * Знак, отнесенный к трассе.
+ */
+interface SignPlacement {
+    /**
+     * Модель знака.
+     */
+    sign: DwgModel3d;
+
+    /**
+     * Положение знака (в метрах от начала трассы).
+     */
+    station: number;
+
+    /**
+     * Центр знака в мировых координатах.
+     */
+    center: vec3;
+
+    /**
+     * Габариты знака.
+     */
+    bounds: ModelBounds;
+
+    /**
+     * Ориентация щита знака, если ее удалось определить.
+     */
+    facing: PlateFacing | undefined;
+}
+
+/**
+ * Закрытие знака на пикете.
+ */
+interface StationOcclusion {
+    /**
+     * Знаки, закрывающие лучи к знаку.
+     */
+    occluders: Set<DwgModel3d>;
+
+    /**
+     * Наименьшая среди полос доля лучей, не закрытых другими знаками.
+     */
+    share: number;
+
+    /**
+     * Индексы полос, с которых знак закрыт.
+     */
+    lanes: number[];
+}
+
+/**
+ * Участок трассы, на котором нарушение сохраняется.
+ */
+interface SignRange {
+    /**
+     * Начало участка (в метрах от начала трассы).
+     */
+    start: number;
+
+    /**
+     * Последний пикет участка с нарушением (в метрах от начала трассы).
+     */
+    end: number;
+
+    /**
+     * Число пикетов участка, на которых нарушение обнаружено с каждой полосы.
+     */
+    blockedByLane: number[];
+
+    /**
+     * Для закрытия — наименьшая видимая доля знака, для скопления — наибольшее число знаков.
+     */
+    value: number;
+
+    /**
+     * Знаки скопления на участке.
+     */
+    signs: Set<DwgModel3d>;
+}
+
+/**
+ * Диагностика закрытия или скопления знаков.
+ */
+interface SignsClutterDiagnostic extends Diagnostic {
+    /**
+     * Контекст приложения.
+     */
+    ctx: Context;
+
+    /**
+     * Трасса с направлением движения.
+     */
+    alignment: AlignmentWrapper;
+
+    /**
+     * Правило, по которому выполнялась проверка.
+     */
+    rule: SignsClutterVisibilityRule;
+
+    /**
+     * Полоса, с которой нарушение обнаружено на большей части участка.
+     */
+    lane: Lane;
+
+    /**
+     * Знаки, выделяемые при активации: закрытый и закрывающий либо знаки скопления.
+     */
+    signs: Set<DwgEntity>;
+
+    /**
+     * Точка, на которую смотрит водитель при активации.
+     */
+    focus: vec3;
+
+    /**
+     * Начало участка (в метрах от начала трассы).
+     */
+    rangeStart: number;
+
+    /**
+     * Конец участка (в метрах от начала трассы).
+     */
+    rangeEnd: number;
+}
+
+/**
+ * Коэффициент замедления анимации при активации диагностики.
+ */
+let slowdown = 1.0;
+
+/**
+ * Активирует анимацию диагностики: водитель движется по участку и смотрит на знаки.
+ *
+ * @param diagnostic - Диагностика, которую нужно активировать.
+ * @param active - Флаг повторной активации сообщения
+ */
+function activateDiagnostic(diagnostic: Diagnostic, active: boolean) {
+    slowdown = active ? Math.max(slowdown * 0.5, 0.01) : 1.0;
+
+    const { ctx, alignment, rule, lane, signs, focus, rangeStart, rangeEnd } = diagnostic as SignsClutterDiagnostic;
+    const cadview = ctx.cadview;
+    if (!cadview) return;
+
+    const distance = rangeEnd - rangeStart;
+    const speed = 17 * slowdown; // 17 м/с с учётом slowdown
+    const duration = Math.max(Math.abs(distance) / speed, 1.0);
+
+    cadview.layer.clearSelected();
+    cadview.layer.selectObjects((o) => signs.has(o), true);
+
+    const position: vec3 = [0.0, 0.0, 0.0];
+    const direction: vec3 = [0.0, 0.0, 0.0];
+    cadview.animate(duration, (t: number) => {
+        t = Math.min(t, 1.0);
+        const station = rangeStart + t * distance;
+        position[0] = station;
+        position[1] = lane.offsetAt(station) ?? rule.viewPointOffset;
+        alignment.toWCS(position as unknown as vec2, position as unknown as vec2);
+        position[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+        Math3d.vec3.sub(direction, focus, position);
+        Math3d.vec3.normalize(direction, direction);
+        cadview.lookAt(position, direction, undefined, false, focus);
+        cadview.invalidate();
+    });
+}
+
+/**
+ * Экспорт правила диагностики закрытия и скопления знаков.
+ */
+export default {
+    /**
+     * Правило проверки взаимного закрытия и скопления знаков.
+     *
+     * @param ctx - Контекст приложения.
+     * @returns Объект правила диагностики.
+     */
+    'rule:visibility:signs-clutter': (ctx: Context): DiagnosticRule<SignsClutterVisibilityRule> => {
+        return {
+            /**
+             * Создаёт и возвращает стандартные параметры правила.
+             *
+             * @returns Объект правила по умолчанию.
+             */
+            async createRule() {
+                return {
+                    alignmentFilter: '$type_1 = SmdxElement',
+                    objectFilter: '$type_3 = SmdxRoadSignItem',
+                    direction: MoveDirection.FORWARD,
+                    viewPointOffset: 0,
+                    lanes: '',
+                    laneFilter: '',
+                    viewPointElevation: 1.2,
+                    viewPointStep: 1,
+                    viewDistance: 300,
+                    fieldOfView: 120,
+                    targetGrid: 3,
+                    minVisibleShare: 0.5,
+                    clutterDistance: 100,
+                    maxSigns: 5,
+                };
+            },
+
+            /**
+             * Проверяет закрытие знаков другими знаками и скопление знаков вдоль трасс.
+             *
+             * @param app - Приложение, в котором выполняется проверка.
+             * @param rule - Правило проверки.
+             * @param diagnostics - Коллекция диагностики для добавления результатов.
+             * @param progress - Объект для отслеживания прогресса выполнения.
+             */
+            async execute(app: Application, rule: SignsClutterVisibilityRule, diagnostics: DiagnosticCollection, progress: WorkerProgress) {
+                const drawing = app.model as Drawing;
+                if (drawing === undefined) {
+                    return;
+                }
+                const cadview = ctx.cadview;
+                if (cadview === undefined) {
+                    return;
+                }
+                const drawingLayer = cadview.layer.drawing;
+                if (drawingLayer === undefined) {
+                    return;
+                }
+
+                const modelName = drawing.layers.layer0?.modelName ?? '';
+                const messages: Record<string, (Diagnostic | SignsClutterDiagnostic)[]> = {};
+                const results: VisibilityResult[] = [];
+
+                // Получение трасс и знаков
+                const alignments = drawing.filterEntities(rule.alignmentFilter, obj => obj.type === DwgType.alignment, false).flatMap(align => directionsOf(rule.direction).map(direction => new AlignmentWrapper(align as DwgAlignment, direction)));
+                const signs = drawing.filterEntities(rule.objectFilter, obj => obj.type === DwgType.model3d, false) as DwgModel3d[];
+                if (signs.length === 0) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Не найдены подходящие слои знаков'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Не удалось найти слои знаков, удовлетворяющие заданному фильтру'),
+                        ctx,
+                    }];
+                }
+                const signSet = new Set<DwgEntity>(signs);
+
+                // Полосы движения наблюдателя
+                const laneTables = parseLanes(rule.lanes);
+                if (laneTables === undefined) {
+                    messages[modelName] = [{
+                        message: ctx.tr('Неверно заданы полосы движения'),
+                        severity: DiagnosticSeverity.Warning,
+                        tooltip: ctx.tr('Полосы задаются через «;» постоянным смещением или таблицей «пикет: смещение» через запятую'),
+                        ctx,
+                    }];
+                    diagnostics.set(modelName, messages[modelName]);
+                    return;
+                }
+                const laneFilter = rule.laneFilter?.trim() ? rule.laneFilter : undefined;
+                const laneAxes = laneFilter !== undefined ? drawing.filterEntities(laneFilter, obj => obj.type === DwgType.alignment, false) as DwgAlignment[] : [];
+
+                // Препятствиями считаются только модели на слоях знаков
+                progress.details = ctx.tr('Построение пространственного индекса препятствий');
+                await new Promise<void>((resolve) => {
+                    setTimeout(resolve, 0);
+                });
+                const obstacleFinder = new ObstacleFinder(drawingLayer, drawing.filterLayers(rule.objectFilter, false), undefined);
+                obstacleFinder.buildIndex(alignmentCorridor(alignments, Math.max(rule.viewDistance, rule.clutterDistance) + LANE_MAX_OFFSET));
+
+                progress.indeterminate = false;
+                const reporter = new ProgressReporter(progress);
+
+                const stationOffset: vec2 = [0.0, 0.0];
+                const viewDirection: vec2 = [0.0, 0.0];
+                const direction: vec3 = [0.0, 0.0, 0.0];
+                const tg: vec3 = [0.0, 0.0, 0.0];
+                const viewPoint: vec3 = [0.0, 0.0, 0.0];
+                const minCos = Math.cos(rule.fieldOfView * 0.5 * Math.PI / 180);
+
+                for (let alignmentIndex = 0; alignmentIndex < alignments.length; ++alignmentIndex) {
+                    const alignment = alignments[alignmentIndex];
+                    const length = alignment.length;
+                    const lanes = alignmentLanes(ctx, alignment, laneTables, laneAxes, rule.viewPointOffset);
+                    let collection = messages[alignment.modelName];
+                    if (collection === undefined) {
+                        messages[alignment.modelName] = collection = [];
+                    }
+
+                    // Знаки в пределах трассы
+                    const placements: SignPlacement[] = [];
+                    for (const sign of signs) {
+                        const center: vec3 = [0.0, 0.0, 0.0];
+                        const bounds = modelBounds(sign);
+                        if (bounds === undefined || !modelCenter(center, sign)) {
+                            continue;
+                        }
+                        alignment.fromWCS(stationOffset, center as unknown as vec2);
+                        if (stationOffset[0] < 0 || stationOffset[0] > length) {
+                            continue;
+                        }
+                        placements.push({ sign, station: stationOffset[0], center, bounds, facing: plateFacing(sign) });
+                    }
+                    if (placements.length === 0) {
+                        continue;
+                    }
+
+                    // Знаки впереди по ходу движения в поле зрения с лицевой стороной к водителю: [знак, расстояние]
+                    const signsInView = (station: number): [SignPlacement, number][] => {
+                        const found: [SignPlacement, number][] = [];
+                        for (const placement of placements) {
+                            if (placement.station < station) {
+                                continue;
+                            }
+                            Math3d.vec3.sub(direction, placement.center, viewPoint);
+                            const distance = Math3d.vec3.len(direction);
+                            if (distance > Math.max(rule.viewDistance, rule.clutterDistance)) {
+                                continue;
+                            }
+                            Math3d.vec2.normalize(viewDirection, direction as unknown as vec2);
+                            if (Math3d.vec2.dot(tg as unknown as vec2, viewDirection) < minCos) {
+                                continue;
+                            }
+                            const facing = placement.facing;
+                            if (facing !== undefined) {
+                                const cos = -Math3d.vec2.dot(facing.normal, viewDirection);
+                                if ((facing.twoSided ? Math.abs(cos) : cos) <= 0.0) {
+                                    continue;
+                                }
+                            }
+                            found.push([placement, distance]);
+                        }
+                        return found;
+                    };
+
+                    // Полоса, с которой нарушение обнаружено на наибольшем числе пикетов участка
+                    const worstLane = (range: SignRange) => lanes[range.blockedByLane.indexOf(Math.max(...range.blockedByLane))];
+
+                    const pushOcclusion = (placement: SignPlacement, occluder: DwgModel3d, range: SignRange, end: number) => {
+                        const lane = worstLane(range);
+                        const message = ctx.tr('Знак закрыт знаком {0} ({1}) на участке от {2} до {3}', occluder.$id ?? '', layerPath(occluder), alignment.toPK(range.start), alignment.toPK(end));
+                        results.push({
+                            kind: ResultKind.OCCLUSION,
+                            alignment: alignment.source,
+                            direction: alignment.direction,
+                            from: range.start,
+                            to: end,
+                            fromPK: alignment.toPK(range.start),
+                            toPK: alignment.toPK(end),
+                            lane: lane.name,
+                            message,
+                            obstacles: [entityRef(occluder)],
+                            target: entityRef(placement.sign),
+                            axis: axisPoints(alignment, range.start, end),
+                        });
+                        collection!.push({
+                            message,
+                            severity: DiagnosticSeverity.Error,
+                            source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}, ${layerPath(placement.sign)}`,
+                            tooltip: ctx.tr('Наименьшая доля знака, не закрытая другими знаками, {0}%', (range.value * 100).toFixed(0)),
+                            activation: activateDiagnostic,
+                            ctx,
+                            alignment,
+                            rule,
+                            lane,
+                            signs: new Set<DwgEntity>([placement.sign, occluder]),
+                            focus: placement.center,
+                            rangeStart: range.start,
+                            rangeEnd: end,
+                        });
+                    };
+
+                    const pushClutter = (range: SignRange, end: number) => {
+                        const lane = worstLane(range);
+                        const focus: vec3 = [0.0, 0.0, 0.0];
+                        for (const placement of placements) {
+                            if (range.signs.has(placement.sign)) {
+                                for (let k = 0; k < 3; ++k) {
+                                    focus[k] += placement.center[k] / range.signs.size;
+                                }
+                            }
+                        }
+                        const message = ctx.tr('На участке от {0} до {1} в поле зрения водителя одновременно до {2} знаков, допускается {3}', alignment.toPK(range.start), alignment.toPK(end), `${range.value}`, `${rule.maxSigns}`);
+                        results.push({
+                            kind: ResultKind.CLUTTER,
+                            alignment: alignment.source,
+                            direction: alignment.direction,
+                            from: range.start,
+                            to: end,
+                            fromPK: alignment.toPK(range.start),
+                            toPK: alignment.toPK(end),
+                            lane: lane.name,
+                            message,
+                            obstacles: [...range.signs].map(entityRef),
+                            axis: axisPoints(alignment, range.start, end),
+                        });
+                        collection!.push({
+                            message,
+                            severity: DiagnosticSeverity.Warning,
+                            source: `${alignment.source}, ${directionTitle(ctx, alignment.direction)}`,
+                            tooltip: ctx.tr('Учитываются знаки на расстоянии до {0} м в поле зрения {1}°', rule.clutterDistance.toFixed(0), rule.fieldOfView.toFixed(0)),
+                            activation: activateDiagnostic,
+                            ctx,
+                            alignment,
+                            rule,
+                            lane,
+                            signs: range.signs,
+                            focus,
+                            rangeStart: range.start,
+                            rangeEnd: end,
+                        });
+                    };
+
+                    // Открытые участки закрытия: знак → закрывающий знак → участок
+                    const occlusionRanges = new Map<SignPlacement, Map<DwgModel3d, SignRange>>();
+                    let clutterRange: SignRange | undefined;
+
+                    for (let station = 0; station <= length; station += rule.viewPointStep) {
+                        await reporter.report(
+                            (alignmentIndex + (length > 0 ? station / length : 1.0)) / alignments.length,
+                            () => `${ctx.tr('Трасса {0}, пикет {1} ({2})', alignment.source, alignment.toPK(station), directionTitle(ctx, alignment.direction))}; ${obstacleFinder.statistics(ctx)}`,
+                        );
+                        alignment.tangentAt(tg, station);
+                        Math3d.vec2.normalize(tg as unknown as vec2);
+
+                        const occlusions = new Map<SignPlacement, StationOcclusion>();
+                        let clutterCount = 0;
+                        let clutterLane = -1;
+                        let clutterSigns: DwgModel3d[] = [];
+                        for (let laneIndex = 0; laneIndex < lanes.length; ++laneIndex) {
+                            const viewPointOffset = lanes[laneIndex].offsetAt(station);
+                            if (viewPointOffset === undefined) {
+                                continue;
+                            }
+                            alignment.toWCS(viewPoint as unknown as vec2, [station, viewPointOffset]);
+                            viewPoint[2] = alignment.elevationAt(station) + rule.viewPointElevation;
+                            const inView = signsInView(station);
+
+                            // Скопление: знаки в поле зрения в пределах заданного расстояния
+                            const crowd = inView.filter(([, distance]) => distance <= rule.clutterDistance).map(([placement]) => placement.sign);
+                            if (crowd.length > clutterCount) {
+                                clutterCount = crowd.length;
+                                clutterLane = laneIndex;
+                                clutterSigns = crowd;
+                            }
+
+                            // Закрытие: доля лучей к знаку, не пересекающих другие знаки
+                            for (const [placement, distance] of inView) {
+                                if (distance > rule.viewDistance) {
+                                    continue;
+                                }
+                                const samples = faceSamples(placement.bounds, viewPoint, rule.targetGrid);
+                                const occluders = new Set<DwgModel3d>();
+                                let visibleRays = 0;
+                                for (const sample of samples) {
+                                    const found = obstacleFinder.find(viewPoint, sample, placement.sign).filter((obstacle) => signSet.has(obstacle)) as DwgModel3d[];
+                                    if (found.length === 0) {
+                                        ++visibleRays;
+                                    }
+                                    found.forEach((occluder) => occluders.add(occluder));
+                                }
+                                const share = visibleRays / samples.length;
+                                if (share >= rule.minVisibleShare) {
+                                    continue;
+                                }
+                                let occlusion = occlusions.get(placement);
+                                if (occlusion === undefined) {
+                                    occlusions.set(placement, occlusion = { occluders: new Set(), share, lanes: [] });
+                                }
+                                occluders.forEach((occluder) => occlusion!.occluders.add(occluder));
+                                occlusion.share = Math.min(occlusion.share, share);
+                                occlusion.lanes.push(laneIndex);
+                            }
+                        }
+
+                        // Завершение участков закрытия, на которых знак больше не закрыт данным знаком
+                        for (const [placement, ranges] of occlusionRanges) {
+                            for (const [occluder, range] of ranges) {
+                                if (!occlusions.get(placement)?.occluders.has(occluder)) {
+                                    pushOcclusion(placement, occluder, range, station);
+                                    ranges.delete(occluder);
+                                }
+                            }
+                        }
+                        for (const [placement, occlusion] of occlusions) {
+                            let ranges = occlusionRanges.get(placement);
+                            if (ranges === undefined) {
+                                occlusionRanges.set(placement, ranges = new Map());
+                            }
+                            for (const occluder of occlusion.occluders) {
+                                let range = ranges.get(occluder);
+                                if (range === undefined) {
+                                    ranges.set(occluder, range = { start: station, end: station, blockedByLane: lanes.map(() => 0), value: 1.0, signs: new Set() });
+                                }
+                                range.end = station;
+                                range.value = Math.min(range.value, occlusion.share);
+                                occlusion.lanes.forEach((laneIndex) => ++range!.blockedByLane[laneIndex]);
+                            }
+                        }
+
+                        // Участки скопления знаков
+                        if (clutterCount > rule.maxSigns) {
+                            if (clutterRange === undefined) {
+                                clutterRange = { start: station, end: station, blockedByLane: lanes.map(() => 0), value: 0, signs: new Set() };
+                            }
+                            clutterRange.end = station;
+                            clutterRange.value = Math.max(clutterRange.value, clutterCount);
+                            ++clutterRange.blockedByLane[clutterLane];
+                            clutterSigns.forEach((sign) => clutterRange!.signs.add(sign));
+                        } else if (clutterRange !== undefined) {
+                            pushClutter(clutterRange, station);
+                            clutterRange = undefined;
+                        }
+                    }
+
+                    // Завершение последних участков на последнем проверенном пикете
+                    for (const [placement, ranges] of occlusionRanges) {
+                        for (const [occluder, range] of ranges) {
+                            pushOcclusion(placement, occluder, range, range.end);
+                        }
+                    }
+                    if (clutterRange !== undefined) {
+                        pushClutter(clutterRange, clutterRange.end);
+                    }
+                }
+
+                setLastResults('rule:visibility:signs-clutter', results);
+
+                // Сохранение результатов диагностики
+                for (const uri in messages) {
+                    diagnostics.set(uri, messages[uri]);
+                }
+            }
+        };
+    },
+};
@@ -0,0 +1,271 @@
+/**
+ * Модуль нормативных требований к расстоянию видимости.
+ *
+ * Содержит встроенные таблицы норм и позволяет по расчетной скорости, категории дороги
+ * и виду проверки получить требуемое расстояние видимости, высоту глаз водителя
+ * и высоту наблюдаемого объекта.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Способ задания требований к видимости.
+ */
+export enum RequirementMode {
+    /**
+     * Расстояние и высоты задаются пользователем вручную.
+     */
+    MANUAL = "MANUAL",
+    /**
+     * Расстояние и высоты определяются по нормативной таблице.
+     */
+    STANDARD = "STANDARD",
+}
+
+/**
+ * Нормативный документ, таблица которого применяется.
+ */
+export enum DesignStandard {
+    SP_34_13330 = "SP_34_13330",
+    GOST_R_52289 = "GOST_R_52289",
+    AASHTO = "AASHTO",
+}
+
+/**
+ * Категория автомобильной дороги.
+ */
+export enum RoadCategory {
+    IA = "IA",
+    IB = "IB",
+    IC = "IC",
+    II = "II",
+    III = "III",
+    IV = "IV",
+    V = "V",
+}
+
+/**
+ * Вид проверки видимости.
+ */
+export enum SightCheck {
+    /**
+     * Видимость поверхности дороги для остановки.
+     */
+    STOPPING = "STOPPING",
+    /**
+     * Видимость встречного автомобиля.
+     */
+    ONCOMING = "ONCOMING",
+    /**
+     * Видимость при обгоне.
+     */
+    OVERTAKING = "OVERTAKING",
+}
+
+/**
+ * Параметры правила, необходимые для определения нормативных требований.
+ */
+export interface RequirementSettings {
+    /**
+     * Способ задания требований.
+     */
+    mode: RequirementMode;
+
+    /**
+     * Применяемый нормативный документ.
+     */
+    standard: DesignStandard;
+
+    /**
+     * Расчетная скорость (в км/ч). Если не задана, берется базовая скорость категории дороги.
+     */
+    designSpeed: number;
+
+    /**
+     * Категория дороги.
+     */
+    roadCategory: RoadCategory;
+
+    /**
+     * Вид проверки видимости.
+     */
+    checkType: SightCheck;
+}
+
+/**
+ * Требования к видимости, полученные из нормативной таблицы.
+ */
+export interface SightRequirement {
+    /**
+     * Требуемое расстояние видимости (в метрах).
+     */
+    viewDistance: number;
+
+    /**
+     * Высота глаз водителя (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Высота наблюдаемого объекта (в метрах).
+     */
+    objectElevation: number;
+
+    /**
+     * Обозначение нормативного документа.
+     */
+    norm: string;
+
+    /**
+     * Описание примененной строки таблицы.
+     */
+    row: string;
+}
+
+/**
+ * Строка нормативной таблицы: расчетная скорость и расстояния видимости по видам проверки.
+ * Отсутствующее значение означает, что норма не устанавливает требование.
+ */
+type StandardRow = [speed: number, stopping: number, oncoming: number | undefined, overtaking: number | undefined];
+
+/**
+ * Нормативная таблица с высотами глаз водителя и объектов.
+ */
+interface StandardTable {
+    norm: string;
+    table: string;
+    eyeHeight: number;
+    obstacleHeight: number;
+    vehicleHeight: number;
+    rows: StandardRow[];
+}
+
+const TABLES: Record<DesignStandard, StandardTable> = {
+    [DesignStandard.SP_34_13330]: {
+        norm: 'СП 34.13330.2021',
+        table: 'табл. 5.21',
+        eyeHeight: 1.2,
+        obstacleHeight: 0.2,
+        vehicleHeight: 1.2,
+        rows: [
+            [30, 45, 90, 200],
+            [40, 55, 110, 250],
+            [50, 75, 130, 350],
+            [60, 85, 170, 400],
+            [80, 150, 250, 550],
+            [100, 200, 350, 700],
+            [120, 250, 450, 800],
+            [150, 300, undefined, undefined],
+        ],
+    },
+    [DesignStandard.GOST_R_52289]: {
+        norm: 'ГОСТ Р 52289-2019, п. 6.2.1',
+        table: 'табл. 7',
+        eyeHeight: 1.2,
+        obstacleHeight: 0.2,
+        vehicleHeight: 1.2,
+        rows: [
+            [40, 55, 100, 250],
+            [50, 75, 100, 300],
+            [60, 85, 150, 350],
+            [70, 115, 200, 400],
+            [80, 150, 250, 450],
+            [90, 175, 300, 500],
+            [100, 200, 350, 550],
+            [110, 225, 400, 600],
+            [120, 250, 450, 650],
+        ],
+    },
+    [DesignStandard.AASHTO]: {
+        norm: 'AASHTO Green Book',
+        table: 'Table 3-1, 3-4',
+        eyeHeight: 1.08,
+        obstacleHeight: 0.6,
+        vehicleHeight: 1.08,
+        rows: [
+            [30, 35, undefined, 120],
+            [40, 50, undefined, 140],
+            [50, 65, undefined, 160],
+            [60, 85, undefined, 180],
+            [70, 105, undefined, 210],
+            [80, 130, undefined, 245],
+            [90, 160, undefined, 280],
+            [100, 185, undefined, 320],
+            [110, 220, undefined, 355],
+            [120, 250, undefined, 395],
+            [130, 285, undefined, 440],
+        ],
+    },
+};
+
+/**
+ * Базовая расчетная скорость (в км/ч) для категорий дорог.
+ */
+const CATEGORY_SPEEDS: Record<RoadCategory, number> = {
+    [RoadCategory.IA]: 150,
+    [RoadCategory.IB]: 120,
+    [RoadCategory.IC]: 100,
+    [RoadCategory.II]: 120,
+    [RoadCategory.III]: 100,
+    [RoadCategory.IV]: 80,
+    [RoadCategory.V]: 60,
+};
+
+/**
+ * Категории дорог с разделительной полосой, на которых встречное движение и обгон
+ * по полосе встречного направления исключены.
+ */
+const DIVIDED_CATEGORIES = new Set([RoadCategory.IA, RoadCategory.IB, RoadCategory.IC]);
+
+/**
+ * Определяет нормативные требования к видимости.
+ *
+ * Строка таблицы выбирается по наименьшей табличной скорости, не меньшей расчетной.
+ *
+ * @param settings - Параметры правила.
+ * @returns Требования к видимости либо `undefined`, если норма не устанавливает
+ * требование для заданного сочетания параметров.
+ */
+export function resolveRequirement(settings: RequirementSettings): SightRequirement | undefined {
+    const table = TABLES[settings.standard];
+    if (table === undefined) {
+        return undefined;
+    }
+    if (settings.checkType !== SightCheck.STOPPING && DIVIDED_CATEGORIES.has(settings.roadCategory)) {
+        return undefined;
+    }
+
+    const speed = settings.designSpeed > 0 ? settings.designSpeed : CATEGORY_SPEEDS[settings.roadCategory];
+    const row = table.rows.find((row) => row[0] >= speed);
+    if (row === undefined) {
+        return undefined;
+    }
+
+    let viewDistance: number | undefined;
+    let objectElevation: number;
+    switch (settings.checkType) {
+        case SightCheck.ONCOMING:
+            viewDistance = row[2];
+            objectElevation = table.vehicleHeight;
+            break;
+        case SightCheck.OVERTAKING:
+            viewDistance = row[3];
+            objectElevation = table.vehicleHeight;
+            break;
+        default:
+            viewDistance = row[1];
+            objectElevation = table.obstacleHeight;
+            break;
+    }
+    if (viewDistance === undefined) {
+        return undefined;
+    }
+
+    return {
+        viewDistance,
+        viewPointElevation: table.eyeHeight,
+        objectElevation,
+        norm: table.norm,
+        row: `${table.table}, V = ${row[0]} км/ч`,
+    };
+}
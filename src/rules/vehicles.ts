@@ -0,0 +1,120 @@
+/**
+ * Модуль профилей транспортных средств, для которых проверяется видимость.
+ *
+ * Профиль задает высоту глаз водителя и высоту наблюдаемого объекта. Проверка
+ * по нескольким профилям за один запуск выявляет препятствия над дорогой (пролетные
+ * строения путепроводов, рамные опоры знаков), закрывающие обзор только водителю
+ * высокого транспортного средства.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Вид транспортного средства с типовыми высотами.
+ */
+export enum VehicleType {
+    /**
+     * Легковой автомобиль.
+     */
+    CAR = "CAR",
+    /**
+     * Грузовой автомобиль.
+     */
+    TRUCK = "TRUCK",
+    /**
+     * Автобус.
+     */
+    BUS = "BUS",
+}
+
+/**
+ * Профиль транспортного средства.
+ */
+export interface VehicleProfile {
+    /**
+     * Вид транспортного средства либо `undefined` для профиля с заданными высотами.
+     */
+    type?: VehicleType;
+
+    /**
+     * Наименование профиля с заданными высотами.
+     */
+    name: string;
+
+    /**
+     * Высота глаз водителя над уровнем трассы (в метрах).
+     */
+    viewPointElevation: number;
+
+    /**
+     * Высота наблюдаемого объекта над уровнем трассы (в метрах).
+     */
+    objectElevation: number;
+}
+
+/**
+ * Типовые высоты глаз водителя и наблюдаемого объекта (в метрах).
+ */
+const VEHICLE_ELEVATIONS: Record<VehicleType, [viewPointElevation: number, objectElevation: number]> = {
+    [VehicleType.CAR]: [1.2, 0.2],
+    [VehicleType.TRUCK]: [2.4, 0.2],
+    [VehicleType.BUS]: [2.0, 0.2],
+};
+
+/**
+ * Разбирает строку описания профилей транспортных средств.
+ *
+ * Профили разделяются точкой с запятой. Профиль задается видом транспортного средства
+ * с типовыми высотами (`CAR`, `TRUCK`, `BUS`) либо наименованием и высотами глаз
+ * водителя и объекта через запятую (`Тягач: 2.6, 0.2`).
+ *
+ * @param spec - Строка описания профилей.
+ * @returns Профили либо `undefined`, если строка содержит ошибку.
+ */
+export function parseVehicles(spec: string | undefined): VehicleProfile[] | undefined {
+    const vehicles: VehicleProfile[] = [];
+    if (spec === undefined) {
+        return vehicles;
+    }
+    for (const vehicleSpec of spec.split(';')) {
+        const text = vehicleSpec.trim();
+        if (text === '') {
+            continue;
+        }
+        const type = Object.values(VehicleType).find((value) => value === text.toUpperCase());
+        if (type !== undefined) {
+            const [viewPointElevation, objectElevation] = VEHICLE_ELEVATIONS[type];
+            vehicles.push({ type, name: type, viewPointElevation, objectElevation });
+            continue;
+        }
+        const colon = text.indexOf(':');
+        const name = text.slice(0, colon).trim();
+        const parts = text.slice(colon + 1).split(',').map((part) => part.trim());
+        const values = parts.map(Number);
+        if (colon < 0 || name === '' || parts.length !== 2 || parts.some((part) => part === '') || !values.every(isFinite)) {
+            return undefined;
+        }
+        vehicles.push({ name, viewPointElevation: values[0], objectElevation: values[1] });
+    }
+    return vehicles;
+}
+
+/**
+ * Возвращает наименование профиля для сообщений.
+ *
+ * @param ctx - Контекст приложения.
+ * @param vehicle - Профиль транспортного средства.
+ * @returns Наименование профиля.
+ */
+export function vehicleTitle(ctx: Context, vehicle: VehicleProfile): string {
+    switch (vehicle.type) {
+        case VehicleType.CAR:
+            return ctx.tr('легковой автомобиль');
+        case VehicleType.TRUCK:
+            return ctx.tr('грузовой автомобиль');
+        case VehicleType.BUS:
+            return ctx.tr('автобус');
+        default:
+            return vehicle.name;
+    }
+}
@@ -0,0 +1,177 @@
+const LEAF_SIZE = 4;
+
+/**
+ * The arrays of a built hierarchy, suitable for passing to a worker.
+ */
+export interface TriangleBVHData {
+    positions: Float64Array;
+    bounds: Float64Array;
+    offsets: Int32Array;
+    counts: Int32Array;
+    order: Uint32Array;
+}
+
+/**
+ * A bounding volume hierarchy over triangles given in world coordinates.
+ *
+ * Nodes are stored depth-first: the left child of an inner node follows the node itself,
+ * the right child is referenced by index. Leaves reference a range of the triangle order.
+ */
+export class TriangleBVH {
+    private readonly bounds: Float64Array;
+    private readonly offsets: Int32Array;
+    private readonly counts: Int32Array;
+    private readonly order: Uint32Array;
+
+    /**
+     * Builds the hierarchy.
+     * @param positions The triangle vertices, nine coordinates per triangle.
+     */
+    public constructor(private readonly positions: Float64Array) {
+        const count = positions.length / 9;
+        this.order = new Uint32Array(count);
+        const centroids = new Float64Array(count * 3);
+        for (let i = 0; i < count; ++i) {
+            this.order[i] = i;
+            for (let k = 0; k < 3; ++k) {
+                centroids[i * 3 + k] = (positions[i * 9 + k] + positions[i * 9 + 3 + k] + positions[i * 9 + 6 + k]) / 3;
+            }
+        }
+
+        const bounds: number[] = [];
+        const offsets: number[] = [];
+        const counts: number[] = [];
+        const build = (start: number, end: number): number => {
+            const node = offsets.length;
+            const min = [Infinity, Infinity, Infinity];
+            const max = [-Infinity, -Infinity, -Infinity];
+            const cmin = [Infinity, Infinity, Infinity];
+            const cmax = [-Infinity, -Infinity, -Infinity];
+            for (let i = start; i < end; ++i) {
+                const t = this.order[i];
+                for (let v = 0; v < 3; ++v) {
+                    for (let k = 0; k < 3; ++k) {
+                        const value = positions[t * 9 + v * 3 + k];
+                        min[k] = Math.min(min[k], value);
+                        max[k] = Math.max(max[k], value);
+                    }
+                }
+                for (let k = 0; k < 3; ++k) {
+                    cmin[k] = Math.min(cmin[k], centroids[t * 3 + k]);
+                    cmax[k] = Math.max(cmax[k], centroids[t * 3 + k]);
+                }
+            }
+            bounds.push(...min, ...max);
+            offsets.push(start);
+            counts.push(end - start);
+            if (end - start <= LEAF_SIZE) {
+                return node;
+            }
+
+            // Split by the median of the longest axis of the centroid bounds
+            let axis = 0;
+            for (let k = 1; k < 3; ++k) {
+                if (cmax[k] - cmin[k] > cmax[axis] - cmin[axis]) {
+                    axis = k;
+                }
+            }
+            if (cmax[axis] - cmin[axis] <= 0) {
+                return node;
+            }
+            const middle = (start + end) >> 1;
+            const sorted = Array.from(this.order.subarray(start, end)).sort((a, b) => centroids[a * 3 + axis] - centroids[b * 3 + axis]);
+            this.order.set(sorted, start);
+
+            counts[node] = 0;
+            build(start, middle);
+            offsets[node] = build(middle, end);
+            return node;
+        };
+        if (count > 0) {
+            build(0, count);
+        }
+        this.bounds = Float64Array.from(bounds);
+        this.offsets = Int32Array.from(offsets);
+        this.counts = Int32Array.from(counts);
+    }
+
+    /**
+     * The number of indexed triangles.
+     */
+    public get size(): number {
+        return this.order.length;
+    }
+
+    /**
+     * Returns the arrays of the hierarchy. The arrays are shared, not copied.
+     */
+    public data(): TriangleBVHData {
+        return {
+            positions: this.positions,
+            bounds: this.bounds,
+            offsets: this.offsets,
+            counts: this.counts,
+            order: this.order,
+        };
+    }
+}
+
+/**
+ * Visits the triangles whose node bounds are crossed by a segment.
+ *
+ * The function does not reference anything declared outside of its body, so its source
+ * is also loaded into raycast workers.
+ * @param bvh The arrays of the hierarchy.
+ * @param a The segment start.
+ * @param b The segment end.
+ * @param callback Receives a triangle index; returning `true` stops the walk.
+ */
+export function walkTriangles(bvh: TriangleBVHData, a: ArrayLike<number>, b: ArrayLike<number>, callback: (triangle: number) => boolean | void): void {
+    const { bounds, offsets, counts, order } = bvh;
+    if (offsets.length === 0) {
+        return;
+    }
+    const d = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const crossesNode = (node: number): boolean => {
+        const i = node * 6;
+        let t0 = 0;
+        let t1 = 1;
+        for (let k = 0; k < 3; ++k) {
+            const min = bounds[i + k];
+            const max = bounds[i + 3 + k];
+            if (Math.abs(d[k]) < 1e-12) {
+                if (a[k] < min || a[k] > max) {
+                    return false;
+                }
+                continue;
+            }
+            const near = (min - a[k]) / d[k];
+            const far = (max - a[k]) / d[k];
+            t0 = Math.max(t0, Math.min(near, far));
+            t1 = Math.min(t1, Math.max(near, far));
+            if (t0 > t1) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    const stack = [0];
+    while (stack.length > 0) {
+        const node = stack.pop()!;
+        if (!crossesNode(node)) {
+            continue;
+        }
+        const count = counts[node];
+        if (count > 0) {
+            const offset = offsets[node];
+            for (let i = offset; i < offset + count; ++i) {
+                if (callback(order[i])) {
+                    return;
+                }
+            }
+        } else {
+            stack.push(offsets[node], node + 1);
+        }
+    }
+}
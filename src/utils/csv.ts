@@ -0,0 +1,18 @@
+const SEPARATOR = ';';
+
+function csvField(value: string | number): string {
+    const text = typeof value === 'number' ? value.toFixed(2) : value;
+    if (/[";\n\r]/.test(text)) {
+        return `"${text.replace(/"/g, '""')}"`;
+    }
+    return text;
+}
+
+/**
+ * Formats a single CSV row.
+ * @param values The row values. Numbers are written with two decimal places.
+ * @returns The row text with fields separated by `;` and quoted where needed.
+ */
+export function csvRow(values: (string | number)[]): string {
+    return values.map(csvField).join(SEPARATOR);
+}
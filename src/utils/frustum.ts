@@ -75,3 +75,47 @@ export class SegmentFrustum implements ViewFrustum {
         return false;
     }
 }
+
+/**
+ * A frustum that contains everything. Used to enumerate all selectable objects of a layer.
+ */
+export class UnboundedFrustum implements ViewFrustum {
+    public intersectBox(_box: box3): boolean {
+        return true;
+    }
+
+    public intersectSegment(_a: vec3, _b: vec3): boolean {
+        return true;
+    }
+
+    public containsPoint(_point: vec3): boolean {
+        return true;
+    }
+
+    public box(target: box3): void {
+        Math3d.box3.make(target, [-INF, -INF, -INF], [INF, INF, INF]);
+    }
+
+    public transformed(_matrix: mat4): ViewFrustum {
+        return this;
+    }
+
+    public tolerance(_obj: sphere3, _viewport: vec2): number {
+        return INF;
+    }
+
+    public ray(_target: ray3): void {
+    }
+
+    public clipLine(_targetA: vec3, _targetB: vec3, _line: ray3): boolean {
+        return false;
+    }
+
+    public clipRay(_targetA: vec3, _targetB: vec3, _ray: ray3): boolean {
+        return false;
+    }
+
+    public clipSegment(_targetA: vec3, _targetB: vec3, _a: vec3, _b: vec3): boolean {
+        return false;
+    }
+}
@@ -13,7 +13,9 @@ const _v11: vec3 /*@__PURE__*/ = [0, 0, 0];
 const EPS = 1e-3;
 const EPS2 = 1e-7;
 
-function segmentIntersectsTriangle(sa: vec3, sb: vec3, ta: vec3, tb: vec3, tc: vec3): boolean {
+export type MeshGeometry = NonNullable<DwgModel3d['meshes'][string]['geometry']>;
+
+export function segmentIntersectsTriangle(sa: vec3, sb: vec3, ta: vec3, tb: vec3, tc: vec3, twoSided: boolean): boolean {
     const mdx = sa[0] - sb[0];
     const mdy = sa[1] - sb[1];
     const mdz = sa[2] - sb[2];
@@ -32,11 +34,11 @@ function segmentIntersectsTriangle(sa: vec3, sb: vec3, ta: vec3, tb: vec3, tc: v
     Math3d.vec3.sub(_v3, tc, ta);
     Math3d.vec3.cross(_v4, _v2, _v3);
     const idet = Math3d.vec3.dot(_v1, _v4);
-    if (idet < EPS) {
+    if ((twoSided ? Math.abs(idet) : idet) < EPS) {
         return false;
     }
 
-    const det = 1 / Math3d.vec3.dot(_v1, _v4);
+    const det = 1 / idet;
     _v5[0] = sa[0] - ta[0];
     _v5[1] = sa[1] - ta[1];
     _v5[2] = sa[2] - ta[2];
@@ -59,54 +61,122 @@ function segmentIntersectsTriangle(sa: vec3, sb: vec3, ta: vec3, tb: vec3, tc: v
     return true;
 }
 
-export function modelIntersectsSegment(model: DwgModel3d, inverse: mat4, a: vec3, b: vec3): boolean {
-    Math3d.mat4.mulv3(_v7, inverse, a);
-    Math3d.mat4.mulv3(_v8, inverse, b);
-    const meshes = model.meshes;
-    for (const id in meshes) {
-        const mesh = meshes[id];
+/**
+ * Tests a segment against a triangle given by a flat vertex array, the same way as
+ * {@link segmentIntersectsTriangle}.
+ *
+ * The function does not reference anything declared outside of its body, so its source
+ * is also loaded into raycast workers.
+ * @param positions The triangle vertices, nine coordinates per triangle.
+ * @param triangle The triangle index.
+ * @param a The segment start.
+ * @param b The segment end.
+ * @param twoSided Whether the triangle blocks the segment from both sides.
+ * @returns Whether the segment crosses the triangle.
+ */
+export function segmentCrossesTriangle(positions: ArrayLike<number>, triangle: number, a: ArrayLike<number>, b: ArrayLike<number>, twoSided: boolean): boolean {
+    const eps = 1e-3;
+    const dx = a[0] - b[0];
+    const dy = a[1] - b[1];
+    const dz = a[2] - b[2];
+    const l2 = dx * dx + dy * dy + dz * dz;
+    if (l2 < 1e-7) {
+        return false;
+    }
+    const l = Math.sqrt(l2);
+    const rx = dx / l;
+    const ry = dy / l;
+    const rz = dz / l;
+
+    const i = triangle * 9;
+    const e1x = positions[i + 3] - positions[i];
+    const e1y = positions[i + 4] - positions[i + 1];
+    const e1z = positions[i + 5] - positions[i + 2];
+    const e2x = positions[i + 6] - positions[i];
+    const e2y = positions[i + 7] - positions[i + 1];
+    const e2z = positions[i + 8] - positions[i + 2];
+
+    const nx = e1y * e2z - e1z * e2y;
+    const ny = e1z * e2x - e1x * e2z;
+    const nz = e1x * e2y - e1y * e2x;
+    const idet = rx * nx + ry * ny + rz * nz;
+    if ((twoSided ? Math.abs(idet) : idet) < eps) {
+        return false;
+    }
 
-        const geometry = mesh.geometry;
-        if (geometry === undefined) {
-            continue;
-        }
+    const det = 1 / idet;
+    const wx = a[0] - positions[i];
+    const wy = a[1] - positions[i + 1];
+    const wz = a[2] - positions[i + 2];
 
-        const spatial = geometry.spatial;
-        if (spatial === undefined) {
-            continue;
-        }
+    const t = det * (wx * nx + wy * ny + wz * nz);
+    if (t < -eps || t > l + eps) {
+        return false;
+    }
+
+    const u = det * (wx * (e2y * rz - e2z * ry) + wy * (e2z * rx - e2x * rz) + wz * (e2x * ry - e2y * rx));
+    if (u < -eps || u > 1 + eps) {
+        return false;
+    }
+
+    const v = det * (wx * (ry * e1z - rz * e1y) + wy * (rz * e1x - rx * e1z) + wz * (rx * e1y - ry * e1x));
+    if (v < -eps || v > 1 + eps || u + v > 1 + eps) {
+        return false;
+    }
 
-        const vertices = geometry.vertices;
-        const indices = geometry.indices;
+    return true;
+}
 
-        let intersects = false;
+function geometryIntersectsSegment(geometry: MeshGeometry, a: vec3, b: vec3, twoSided: boolean): boolean {
+    const spatial = geometry.spatial;
+    if (spatial === undefined) {
+        return false;
+    }
 
-        spatial.walkSegment(_v7, _v8, (triangle) => {
-            if (intersects) {
-                return;
-            }
+    const vertices = geometry.vertices;
+    const indices = geometry.indices;
 
-            const t3 = triangle * 3;
+    let intersects = false;
 
-            const ai3 = indices[t3] * 3;
-            _v9[0] = vertices[ai3];
-            _v9[1] = vertices[ai3 + 1];
-            _v9[2] = vertices[ai3 + 2];
+    spatial.walkSegment(a, b, (triangle) => {
+        if (intersects) {
+            return;
+        }
 
-            const bi3 = indices[t3 + 1] * 3;
-            _v10[0] = vertices[bi3];
-            _v10[1] = vertices[bi3 + 1];
-            _v10[2] = vertices[bi3 + 2];
+        const t3 = triangle * 3;
 
-            const ci3 = indices[t3 + 2] * 3;
-            _v11[0] = vertices[ci3];
-            _v11[1] = vertices[ci3 + 1];
-            _v11[2] = vertices[ci3 + 2];
+        const ai3 = indices[t3] * 3;
+        _v9[0] = vertices[ai3];
+        _v9[1] = vertices[ai3 + 1];
+        _v9[2] = vertices[ai3 + 2];
 
-            intersects = segmentIntersectsTriangle(_v7, _v8, _v9, _v10, _v11);
-        });
+        const bi3 = indices[t3 + 1] * 3;
+        _v10[0] = vertices[bi3];
+        _v10[1] = vertices[bi3 + 1];
+        _v10[2] = vertices[bi3 + 2];
 
-        if (intersects) {
+        const ci3 = indices[t3 + 2] * 3;
+        _v11[0] = vertices[ci3];
+        _v11[1] = vertices[ci3 + 1];
+        _v11[2] = vertices[ci3 + 2];
+
+        intersects = segmentIntersectsTriangle(a, b, _v9, _v10, _v11, twoSided);
+    });
+
+    return intersects;
+}
+
+export function modelIntersectsSegment(model: DwgModel3d, inverse: mat4, a: vec3, b: vec3, twoSided = false): boolean {
+    Math3d.mat4.mulv3(_v7, inverse, a);
+    Math3d.mat4.mulv3(_v8, inverse, b);
+    const meshes = model.meshes;
+    for (const id in meshes) {
+        const geometry = meshes[id].geometry;
+        if (geometry === undefined) {
+            continue;
+        }
+
+        if (geometryIntersectsSegment(geometry, _v7, _v8, twoSided)) {
             return true;
         }
     }
@@ -0,0 +1,32 @@
+/**
+ * Reports the progress of a long computation and yields to the event loop
+ * at most once per interval, so that the UI stays responsive.
+ */
+export class ProgressReporter {
+    private time = Date.now();
+
+    /**
+     * @param progress The progress of the worker running the computation.
+     * @param interval The minimal time between reports, in milliseconds.
+     */
+    public constructor(private readonly progress: WorkerProgress, private readonly interval = 1000) {}
+
+    /**
+     * Reports the progress and yields if the interval has elapsed since the previous report.
+     * @param fraction The completed share of the computation, from 0 to 1.
+     * @param details Builds the description of the current step; called only when reporting.
+     */
+    public async report(fraction: number, details: () => string): Promise<void> {
+        if (Date.now() - this.time <= this.interval) {
+            return;
+        }
+        this.time = Date.now();
+        const percents = Math.min(Math.max(fraction, 0), 1) * 100;
+        this.progress.label = percents.toFixed(2);
+        this.progress.percents = percents;
+        this.progress.details = details();
+        await new Promise<void>((resolve) => {
+            setTimeout(resolve, 0);
+        });
+    }
+}
@@ -0,0 +1,296 @@
+import { TriangleBVHData, walkTriangles } from './bvh';
+import { segmentCrossesTriangle } from './intersect';
+
+/**
+ * Triangles shared by all workers of a pool.
+ */
+export interface RaycastScene {
+    /**
+     * The built hierarchy of the triangles.
+     */
+    bvh: TriangleBVHData;
+
+    /**
+     * The owner index of every triangle.
+     */
+    ownerOf: Uint32Array;
+
+    /**
+     * Whether a triangle blocks segments from both sides, one byte per triangle.
+     */
+    twoSided: Uint8Array;
+
+    /**
+     * The share of light passing through every owner, from 0 for opaque owners to 1.
+     */
+    transmittance: Float64Array;
+
+    /**
+     * The share of light below which a segment is blocked.
+     */
+    minTransmittance: number;
+}
+
+/**
+ * Segments from one origin to a sequence of targets.
+ */
+export interface RayGroup {
+    origin: vec3;
+    targets: vec3[];
+
+    /**
+     * Stop at the first blocked target instead of testing all of them. A target is blocked
+     * when the product of the owner transmittances along the segment is below `minTransmittance`.
+     */
+    first: boolean;
+}
+
+/**
+ * The result of casting a ray group.
+ */
+export interface RayGroupHits {
+    /**
+     * The number of targets tested, starting from the first one.
+     */
+    tested: number;
+
+    /**
+     * Pairs of a target index and the owner index of a triangle blocking the segment to it.
+     */
+    hits: [number, number][];
+}
+
+interface RaycastInit {
+    type: 'init';
+    scene: RaycastScene;
+}
+
+interface RaycastRequest {
+    type: 'cast';
+    id: number;
+    origins: Float64Array;
+    targets: Float64Array;
+    offsets: Uint32Array;
+    first: Uint8Array;
+    exclude: number;
+}
+
+interface RaycastReply {
+    id: number;
+
+    /**
+     * For every group: the tested count, the hit count and the hits as target and owner pairs.
+     */
+    hits: Int32Array;
+}
+
+/**
+ * The worker entry point.
+ *
+ * The source of the function is loaded into the worker as is, so it must not reference
+ * anything declared outside of its body. The traversal and the triangle test are passed in
+ * from the module sources shared with the main thread.
+ * @param walk The hierarchy traversal, {@link walkTriangles}.
+ * @param crosses The triangle test, {@link segmentCrossesTriangle}.
+ */
+function raycastWorkerMain(walk: typeof walkTriangles, crosses: typeof segmentCrossesTriangle): void {
+    let scene: RaycastScene | undefined;
+    const a = [0, 0, 0];
+    const b = [0, 0, 0];
+    const found = new Set<number>();
+
+    const findOwners = (scene: RaycastScene, exclude: number) => {
+        const { bvh, ownerOf, twoSided } = scene;
+        found.clear();
+        walk(bvh, a, b, (triangle) => {
+            const owner = ownerOf[triangle];
+            if (owner === exclude || found.has(owner)) {
+                return;
+            }
+            if (crosses(bvh.positions, triangle, a, b, twoSided[triangle] === 1)) {
+                found.add(owner);
+            }
+        });
+    };
+
+    self.onmessage = (event: MessageEvent<RaycastInit | RaycastRequest>) => {
+        const message = event.data;
+        if (message.type === 'init') {
+            scene = message.scene;
+            return;
+        }
+        const { id, origins, targets, offsets, first, exclude } = message;
+        const hits: number[] = [];
+        for (let group = 0; group + 1 < offsets.length; ++group) {
+            for (let k = 0; k < 3; ++k) {
+                a[k] = origins[group * 3 + k];
+            }
+            const header = hits.length;
+            hits.push(0, 0);
+            for (let target = offsets[group]; target < offsets[group + 1]; ++target) {
+                for (let k = 0; k < 3; ++k) {
+                    b[k] = targets[target * 3 + k];
+                }
+                if (scene !== undefined) {
+                    findOwners(scene, exclude);
+                }
+                ++hits[header];
+                let transmittance = 1;
+                for (const owner of found) {
+                    hits.push(target - offsets[group], owner);
+                    ++hits[header + 1];
+                    transmittance *= scene?.transmittance[owner] ?? 0;
+                }
+                if (first[group] === 1 && transmittance < (scene?.minTransmittance ?? 1)) {
+                    break;
+                }
+            }
+        }
+        const reply: RaycastReply = { id, hits: Int32Array.from(hits) };
+        (self as unknown as Worker).postMessage(reply, [reply.hits.buffer]);
+    };
+}
+
+interface PendingCast {
+    resolve: (hits: Int32Array) => void;
+    reject: (reason: unknown) => void;
+}
+
+/**
+ * A pool of workers casting segments against a shared set of triangles.
+ */
+export class RaycastPool {
+    private readonly pending = new Map<number, PendingCast>();
+    private nextId = 0;
+    private failure: Error | undefined;
+
+    private constructor(private readonly workers: Worker[], private readonly url: string) {
+        for (const worker of workers) {
+            worker.onmessage = (event: MessageEvent<RaycastReply>) => {
+                const cast = this.pending.get(event.data.id);
+                this.pending.delete(event.data.id);
+                cast?.resolve(event.data.hits);
+            };
+            worker.onerror = (event) => {
+                this.fail(new Error(event.message));
+            };
+        }
+    }
+
+    /**
+     * Starts the workers and sends each of them a copy of the scene.
+     * @param scene The triangles to cast against.
+     * @param size The number of workers.
+     * @returns The pool, or `undefined` if workers are not available.
+     */
+    public static create(scene: RaycastScene, size: number): RaycastPool | undefined {
+        if (size < 1 || typeof Worker === 'undefined' || typeof URL.createObjectURL !== 'function') {
+            return undefined;
+        }
+        const workers: Worker[] = [];
+        let url: string | undefined;
+        try {
+            url = URL.createObjectURL(new Blob([`(${raycastWorkerMain})(${walkTriangles}, ${segmentCrossesTriangle});`], { type: 'text/javascript' }));
+            for (let i = 0; i < size; ++i) {
+                const worker = new Worker(url);
+                workers.push(worker);
+                const init: RaycastInit = { type: 'init', scene };
+                worker.postMessage(init);
+            }
+        } catch {
+            for (const worker of workers) {
+                worker.terminate();
+            }
+            if (url !== undefined) {
+                URL.revokeObjectURL(url);
+            }
+            return undefined;
+        }
+        return new RaycastPool(workers, url);
+    }
+
+    /**
+     * The number of workers.
+     */
+    public get size(): number {
+        return this.workers.length;
+    }
+
+    /**
+     * Casts ray groups, splitting them evenly between the workers.
+     * @param groups The ray groups.
+     * @param exclude The owner index whose triangles do not block segments, or `-1`.
+     * @returns The hits of every group, in the order of the groups. Rejects if a worker
+     * has failed or the pool is terminated.
+     */
+    public async cast(groups: RayGroup[], exclude = -1): Promise<RayGroupHits[]> {
+        const slice = Math.ceil(groups.length / this.workers.length);
+        const parts: Promise<RayGroupHits[]>[] = [];
+        for (let i = 0; i * slice < groups.length; ++i) {
+            parts.push(this.castOn(this.workers[i], groups.slice(i * slice, (i + 1) * slice), exclude));
+        }
+        return (await Promise.all(parts)).flat();
+    }
+
+    /**
+     * Stops the workers and rejects pending casts.
+     */
+    public terminate(): void {
+        for (const worker of this.workers) {
+            worker.terminate();
+        }
+        this.fail(new Error('The raycast pool is terminated'));
+        URL.revokeObjectURL(this.url);
+    }
+
+    /**
+     * Rejects pending casts and all later ones.
+     * @param error The reason.
+     */
+    private fail(error: Error): void {
+        this.failure ??= error;
+        for (const cast of this.pending.values()) {
+            cast.reject(error);
+        }
+        this.pending.clear();
+    }
+
+    private async castOn(worker: Worker, groups: RayGroup[], exclude: number): Promise<RayGroupHits[]> {
+        if (this.failure !== undefined) {
+            throw this.failure;
+        }
+        const offsets = new Uint32Array(groups.length + 1);
+        for (let i = 0; i < groups.length; ++i) {
+            offsets[i + 1] = offsets[i] + groups[i].targets.length;
+        }
+        const origins = new Float64Array(groups.length * 3);
+        const targets = new Float64Array(offsets[groups.length] * 3);
+        const first = new Uint8Array(groups.length);
+        for (let i = 0; i < groups.length; ++i) {
+            origins.set(groups[i].origin, i * 3);
+            groups[i].targets.forEach((target, k) => targets.set(target, (offsets[i] + k) * 3));
+            first[i] = groups[i].first ? 1 : 0;
+        }
+
+        const id = this.nextId++;
+        const request: RaycastRequest = { type: 'cast', id, origins, targets, offsets, first, exclude };
+        const hits = await new Promise<Int32Array>((resolve, reject) => {
+            this.pending.set(id, { resolve, reject });
+            worker.postMessage(request, [origins.buffer, targets.buffer, offsets.buffer, first.buffer]);
+        });
+
+        const results: RayGroupHits[] = [];
+        let i = 0;
+        while (i < hits.length) {
+            const tested = hits[i];
+            const count = hits[i + 1];
+            const group: RayGroupHits = { tested, hits: [] };
+            for (let h = 0; h < count; ++h) {
+                group.hits.push([hits[i + 2 + h * 2], hits[i + 3 + h * 2]]);
+            }
+            results.push(group);
+            i += 2 + count * 2;
+        }
+        return results;
+    }
+}
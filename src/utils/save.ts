@@ -0,0 +1,12 @@
+/**
+ * Saves text content to a file chosen by the user in the save dialog.
+ * @param ctx The application context.
+ * @param fileName The suggested file name.
+ * @param content The file content, written as UTF-8.
+ * @param filter The file type offered in the dialog.
+ */
+export async function saveText(ctx: Context, fileName: string, content: string, filter: FileFilter): Promise<void> {
+    const workspace = await ctx.saveDialog({ suggestedName: fileName, filters: [filter], folder: false });
+    await workspace.root.put(new TextEncoder().encode(content));
+    await workspace.flush();
+}
@@ -0,0 +1,67 @@
+/**
+ * A value evaluated at a station.
+ */
+export interface ScanSample<T> {
+    station: number;
+    value: T;
+}
+
+/**
+ * Evaluates a function along a range of stations and refines the transitions.
+ *
+ * The range is first scanned with a fixed step. Every pair of neighbouring samples
+ * whose values are not equivalent is then bisected until the samples around the
+ * transition are no further apart than the tolerance. Transitions that start and end
+ * between two samples of the initial scan are not detected.
+ * @param from The first station.
+ * @param to The last station; it is included only when it falls on the step.
+ * @param step The step of the initial scan.
+ * @param tolerance The distance between samples at which bisection stops. `Infinity` disables refinement.
+ * @param evaluate Evaluates the value at a station.
+ * @param equivalent Returns `true` if two values do not form a transition.
+ * @param evaluateMany Evaluates the values of the initial scan at once, in station order.
+ * When omitted, `evaluate` is called for every station.
+ * @returns The samples sorted by station.
+ */
+export async function scanStations<T>(
+    from: number,
+    to: number,
+    step: number,
+    tolerance: number,
+    evaluate: (station: number) => T | Promise<T>,
+    equivalent: (a: T, b: T) => boolean,
+    evaluateMany?: (stations: number[]) => Promise<T[]>
+): Promise<ScanSample<T>[]> {
+    const stations: number[] = [];
+    for (let station = from; station <= to; station += step) {
+        stations.push(station);
+    }
+    const coarse: ScanSample<T>[] = [];
+    if (evaluateMany !== undefined) {
+        const values = await evaluateMany(stations);
+        stations.forEach((station, i) => coarse.push({ station, value: values[i] }));
+    } else {
+        for (const station of stations) {
+            coarse.push({ station, value: await evaluate(station) });
+        }
+    }
+
+    const samples: ScanSample<T>[] = [];
+    const refine = async (a: ScanSample<T>, b: ScanSample<T>) => {
+        if (b.station - a.station <= tolerance || equivalent(a.value, b.value)) {
+            return;
+        }
+        const station = (a.station + b.station) * 0.5;
+        const middle = { station, value: await evaluate(station) };
+        await refine(a, middle);
+        samples.push(middle);
+        await refine(middle, b);
+    };
+    for (let i = 0; i < coarse.length; ++i) {
+        if (i > 0) {
+            await refine(coarse[i - 1], coarse[i]);
+        }
+        samples.push(coarse[i]);
+    }
+    return samples;
+}